@@ -6,6 +6,8 @@ module.exports = {
     '**/__tests__/**/*.+(ts|tsx|js)',
     '**/*.(test|spec).+(ts|tsx|js)'
   ],
+  // 测试辅助函数，不作为测试文件运行
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/src/__tests__/helpers.ts'],
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest'
   },
@@ -0,0 +1,98 @@
+import { LeaderElector, runExclusive } from '../coordination';
+import { STORAGE_KEYS, TAB_COORDINATION } from '../constants';
+
+describe('LeaderElector', () => {
+  let electors: LeaderElector[];
+
+  const createElector = (onChange: (isLeader: boolean) => void = () => undefined) => {
+    const elector = new LeaderElector(onChange);
+    electors.push(elector);
+    return elector;
+  };
+
+  beforeEach(() => {
+    electors = [];
+    localStorage.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    electors.forEach(elector => elector.stop());
+    jest.useRealTimers();
+  });
+
+  it('should elect a single leader across tabs', () => {
+    const first = createElector();
+    const second = createElector();
+
+    first.start();
+    second.start();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+
+  it('should hand over leadership when the leader releases its lease', () => {
+    const onChange = jest.fn();
+    const first = createElector();
+    const second = createElector(onChange);
+
+    first.start();
+    second.start();
+    first.stop();
+
+    // 其他标签页通过 storage 事件感知租约释放
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEYS.LEADER, newValue: null }));
+
+    expect(second.isLeader()).toBe(true);
+    expect(onChange).toHaveBeenCalledWith(true);
+  });
+
+  it('should take over an expired lease', () => {
+    localStorage.setItem(STORAGE_KEYS.LEADER, JSON.stringify({ id: 'closed-tab', expiresAt: Date.now() + 1000 }));
+    const elector = createElector();
+
+    elector.start();
+    expect(elector.isLeader()).toBe(false);
+
+    jest.advanceTimersByTime(TAB_COORDINATION.HEARTBEAT_INTERVAL);
+    expect(elector.isLeader()).toBe(true);
+  });
+
+  it('should keep renewing its own lease', () => {
+    const first = createElector();
+    const second = createElector();
+
+    first.start();
+    jest.advanceTimersByTime(TAB_COORDINATION.LEASE_TIMEOUT * 2);
+    second.start();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+});
+
+describe('runExclusive', () => {
+  it('should run tasks with the same name one at a time', async () => {
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push(`${name}:end`);
+    };
+
+    await Promise.all([runExclusive('test_lock', task('a')), runExclusive('test_lock', task('b'))]);
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  it('should keep running tasks after a failure', async () => {
+    const failed = runExclusive('test_lock', async () => {
+      throw new Error('failed');
+    });
+    const next = runExclusive('test_lock', async () => 'ok');
+
+    await expect(failed).rejects.toThrow('failed');
+    await expect(next).resolves.toBe('ok');
+  });
+});
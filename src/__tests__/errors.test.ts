@@ -0,0 +1,226 @@
+import { ErrorMonitor } from '../errors';
+import { EventType } from '../constants';
+import { safeParse } from '../utils';
+
+describe('ErrorMonitor', () => {
+  let monitor: ErrorMonitor;
+  let callback: jest.Mock;
+  let sessionId: string;
+
+  const throwError = (message: string) => {
+    const error = new Error(message);
+    error.stack = `Error: ${message}\n    at load (https://example.com/app.js:10:2)`;
+    window.dispatchEvent(new ErrorEvent('error', { message, error }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<button id="save">Save</button>';
+    callback = jest.fn();
+    sessionId = 'session-1';
+    monitor = new ErrorMonitor(callback, {
+      config: { maxErrorsPerFingerprint: 2, maxBreadcrumbs: 3 },
+      getSessionId: () => sessionId
+    });
+    monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('should report parsed frames and a fingerprint', () => {
+    throwError('boom');
+
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: EventType.ERROR,
+      eventName: 'javascript_error',
+      properties: expect.objectContaining({
+        message: 'boom',
+        errorType: 'javascript',
+        frames: [{ function: 'load', filename: 'https://example.com/app.js', lineno: 10, colno: 2 }],
+        fingerprint: expect.stringMatching(/^[0-9a-f]{8}$/),
+        occurrence: 1
+      })
+    }));
+  });
+
+  it('should limit the same error within a session', () => {
+    throwError('Request 1 failed');
+    throwError('Request 2 failed');
+    throwError('Request 3 failed');
+
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    sessionId = 'session-2';
+    throwError('Request 4 failed');
+
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(callback.mock.calls[2][0].properties.occurrence).toBe(1);
+  });
+
+  it('should report resource load errors with the resource url', () => {
+    document.body.innerHTML = '<img src="https://cdn.example.com/banner.png"><link rel="stylesheet" href="https://cdn.example.com/app.css">';
+
+    document.querySelector('img')?.dispatchEvent(new Event('error'));
+    document.querySelector('link')?.dispatchEvent(new Event('error'));
+
+    expect(callback.mock.calls.map(call => call[0].properties)).toEqual([
+      expect.objectContaining({ message: 'Resource load error: IMG', filename: 'https://cdn.example.com/banner.png', errorType: 'resource' }),
+      expect.objectContaining({ message: 'Resource load error: LINK', filename: 'https://cdn.example.com/app.css', errorType: 'resource' })
+    ]);
+  });
+
+  it('should attach the most recent breadcrumbs', () => {
+    (document.getElementById('save') as HTMLElement).click();
+    window.history.pushState({}, '', '/orders?token=secret#tab');
+    console.warn('slow response');
+    console.log('[ArgosTracker] internal log');
+    console.info('loaded', { count: 2 });
+    throwError('boom');
+
+    const { breadcrumbs } = callback.mock.calls[0][0].properties;
+    expect(breadcrumbs.map((breadcrumb: any) => breadcrumb.type)).toEqual(['navigation', 'console', 'console']);
+    expect(breadcrumbs[0]).toMatchObject({ message: 'http://localhost/orders', data: { from: 'http://localhost/' } });
+    expect(breadcrumbs[1]).toMatchObject({ message: 'slow response', data: { level: 'warn' } });
+    expect(breadcrumbs[2]).toMatchObject({ message: 'loaded {"count":2}', data: { level: 'info' } });
+
+    window.history.pushState({}, '', '/');
+  });
+
+  it('should strip query strings from observed request breadcrumbs', () => {
+    let observe: (list: { getEntries: () => unknown[] }) => void = () => undefined;
+    const globals = window as unknown as Record<string, unknown>;
+    globals.PerformanceObserver = class {
+      constructor(callback: typeof observe) {
+        observe = callback;
+      }
+      observe = jest.fn();
+      disconnect = jest.fn();
+    };
+    monitor.stop();
+    monitor = new ErrorMonitor(callback);
+    monitor.start();
+
+    observe({
+      getEntries: () => [{ name: 'https://api.example.com/orders?token=secret', initiatorType: 'fetch', duration: 12 }]
+    });
+    throwError('boom');
+    delete globals.PerformanceObserver;
+
+    expect(callback.mock.calls[0][0].properties.breadcrumbs).toEqual([expect.objectContaining({
+      type: 'fetch',
+      message: 'https://api.example.com/orders'
+    })]);
+  });
+
+  describe('API and console capture', () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      monitor.stop();
+      fetchMock = jest.fn();
+      global.fetch = fetchMock;
+      monitor = new ErrorMonitor(callback, {
+        config: { captureConsole: true },
+        trackApi: true,
+        api: { slowThreshold: 1000 },
+        ignoreUrls: ['https://collect.example.com/track'],
+        getSessionId: () => sessionId
+      });
+      monitor.start();
+    });
+
+    it('should report failed requests as api errors', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+      await fetch('/api/orders?page=1', { method: 'POST' });
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: EventType.ERROR,
+        eventName: 'api_error',
+        properties: expect.objectContaining({
+          message: 'HTTP 503',
+          errorType: 'api',
+          method: 'POST',
+          url: 'http://localhost/api/orders',
+          status: 503,
+          duration: expect.any(Number),
+          fingerprint: expect.any(String)
+        })
+      }));
+    });
+
+    it('should report slow requests as performance events', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(1000).mockReturnValueOnce(2500);
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+
+      await fetch('/api/report');
+      now.mockRestore();
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: EventType.PERFORMANCE,
+        eventName: 'api_slow',
+        properties: { metricName: 'api', value: 1500, rating: 'poor', method: 'GET', url: 'http://localhost/api/report', status: 200 }
+      }));
+    });
+
+    it('should not record the tracker\'s own requests', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 500 });
+
+      await fetch('https://collect.example.com/track');
+      throwError('boom');
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].properties.breadcrumbs).toEqual([]);
+    });
+
+    it('should record requests as breadcrumbs', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+
+      await fetch('/api/cart');
+      throwError('boom');
+
+      expect(callback.mock.calls[0][0].properties.breadcrumbs).toEqual([expect.objectContaining({
+        type: 'fetch',
+        message: 'GET http://localhost/api/cart',
+        data: expect.objectContaining({ status: 200, initiatorType: 'fetch' })
+      })]);
+    });
+
+    it('should report console errors and warnings', () => {
+      const error = new TypeError('bad input');
+      console.error('Render failed', error);
+      console.warn('[ArgosTracker] internal warning');
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0]).toMatchObject({
+        eventType: EventType.ERROR,
+        eventName: 'console_error',
+        properties: { message: 'Render failed TypeError: bad input', errorType: 'console', stack: error.stack }
+      });
+    });
+
+    it('should not report the tracker\'s own warnings', () => {
+      safeParse('{', null);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should restore fetch and console on stop', () => {
+      const consoleError = console.error;
+      monitor.stop();
+
+      expect(global.fetch).toBe(fetchMock);
+      expect(console.error).not.toBe(consoleError);
+    });
+  });
+
+  it('should restore patched methods on stop', () => {
+    const pushState = history.pushState;
+    monitor.stop();
+
+    expect(history.pushState).not.toBe(pushState);
+    expect(history.pushState).toBe(History.prototype.pushState);
+  });
+});
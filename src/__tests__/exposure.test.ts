@@ -0,0 +1,102 @@
+import { ExposureTracker } from '../exposure';
+import { EventType } from '../constants';
+
+// Mock IntersectionObserver, tests trigger visibility changes manually
+class MockIntersectionObserver {
+  static instance: MockIntersectionObserver;
+  observed = new Set<Element>();
+  callback: (entries: Partial<IntersectionObserverEntry>[]) => void;
+
+  constructor(callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+    this.callback = callback;
+    MockIntersectionObserver.instance = this;
+  }
+
+  observe = jest.fn((element: Element) => this.observed.add(element));
+  unobserve = jest.fn((element: Element) => this.observed.delete(element));
+  disconnect = jest.fn(() => this.observed.clear());
+
+  trigger(target: Element, intersectionRatio: number): void {
+    this.callback([{ target, intersectionRatio, isIntersecting: intersectionRatio > 0 }]);
+  }
+}
+(global as any).IntersectionObserver = MockIntersectionObserver;
+
+describe('ExposureTracker', () => {
+  let tracker: ExposureTracker;
+  let callback: jest.Mock;
+
+  const createBanner = () => {
+    const element = document.createElement('div');
+    element.setAttribute('data-argos-expose', 'banner_exposure');
+    element.setAttribute('data-argos-prop-banner_id', 'spring-sale');
+    document.body.appendChild(element);
+    return element;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    document.body.innerHTML = '';
+    callback = jest.fn();
+    tracker = new ExposureTracker(callback, { threshold: 0.5, minDuration: 1000 });
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should report exposure after the element stays visible long enough', () => {
+    const banner = createBanner();
+    tracker.start();
+
+    MockIntersectionObserver.instance.trigger(banner, 0.8);
+    jest.advanceTimersByTime(1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: EventType.EXPOSURE,
+      eventName: 'banner_exposure',
+      properties: expect.objectContaining({ banner_id: 'spring-sale', visibleRatio: 0.8, duration: 1000 })
+    }));
+  });
+
+  it('should not report when the element leaves the viewport early', () => {
+    const banner = createBanner();
+    tracker.start();
+
+    MockIntersectionObserver.instance.trigger(banner, 0.8);
+    jest.advanceTimersByTime(500);
+    MockIntersectionObserver.instance.trigger(banner, 0.2);
+    jest.advanceTimersByTime(1000);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should report the same exposure once per page', () => {
+    const banner = createBanner();
+    tracker.start();
+
+    MockIntersectionObserver.instance.trigger(banner, 1);
+    jest.advanceTimersByTime(1000);
+    MockIntersectionObserver.instance.trigger(banner, 0);
+    MockIntersectionObserver.instance.trigger(banner, 1);
+    jest.advanceTimersByTime(1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should observe elements added after start', async () => {
+    tracker.start();
+
+    const banner = createBanner();
+    await Promise.resolve();
+
+    expect(MockIntersectionObserver.instance.observed.has(banner)).toBe(true);
+
+    banner.remove();
+    await Promise.resolve();
+
+    expect(MockIntersectionObserver.instance.observed.has(banner)).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { FrustrationDetector } from '../frustration';
+import { EventType } from '../constants';
+
+describe('FrustrationDetector', () => {
+  let detector: FrustrationDetector;
+  let callback: jest.Mock;
+  let button: HTMLButtonElement;
+
+  const click = (target: Element, clientX = 10, clientY = 10) => {
+    detector.handleClick(target, new MouseEvent('click', { clientX, clientY }));
+  };
+
+  const reportedTypes = () => callback.mock.calls.map(call => call[0].eventType);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    document.body.innerHTML = '<button id="save">Save</button><p id="text">Hello</p>';
+    button = document.getElementById('save') as HTMLButtonElement;
+    callback = jest.fn();
+    detector = new FrustrationDetector(callback, { deadClick: false, errorClick: false });
+    detector.start();
+  });
+
+  afterEach(() => {
+    detector.stop();
+    jest.useRealTimers();
+  });
+
+  describe('rage clicks', () => {
+    it('should report repeated clicks in the same spot', () => {
+      click(button);
+      click(button, 15, 12);
+      click(button, 12, 18);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: EventType.RAGE_CLICK,
+        properties: expect.objectContaining({ clickCount: 3, selector: '#save', tagName: 'button' })
+      }));
+    });
+
+    it('should ignore clicks that are far apart or outside the time window', () => {
+      click(button, 10, 10);
+      click(button, 200, 200);
+      click(button, 10, 10);
+      jest.advanceTimersByTime(1500);
+      click(button, 10, 10);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dead clicks', () => {
+    beforeEach(() => {
+      detector.stop();
+      detector = new FrustrationDetector(callback, { rageClick: false, errorClick: false, deadClickTimeout: 500 });
+      detector.start();
+    });
+
+    it('should report clicks on buttons that change nothing', () => {
+      click(button);
+      jest.advanceTimersByTime(500);
+
+      expect(reportedTypes()).toEqual([EventType.DEAD_CLICK]);
+      expect(callback.mock.calls[0][0].properties).toMatchObject({ selector: '#save', timeout: 500 });
+    });
+
+    it('should not report when the DOM changes after the click', async () => {
+      click(button);
+      button.textContent = 'Saving...';
+      await Promise.resolve();
+      jest.advanceTimersByTime(500);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should not report when the page navigates', () => {
+      click(button);
+      window.history.pushState({}, '', '/next');
+      jest.advanceTimersByTime(500);
+
+      expect(callback).not.toHaveBeenCalled();
+      window.history.pushState({}, '', '/');
+    });
+
+    it('should not count the tracker\'s own reports as a response', () => {
+      detector.stop();
+      detector = new FrustrationDetector(
+        callback,
+        { rageClick: false, errorClick: false, deadClickTimeout: 500 },
+        {},
+        ['https://api.example.com/track']
+      );
+      detector.start();
+      const getEntriesByType = jest.fn();
+      Object.defineProperty(performance, 'getEntriesByType', { value: getEntriesByType, configurable: true });
+
+      click(button);
+      getEntriesByType.mockReturnValue([
+        { name: 'https://api.example.com/track', startTime: performance.now() } as PerformanceEntry
+      ]);
+      jest.advanceTimersByTime(500);
+
+      click(button);
+      getEntriesByType.mockReturnValue([
+        { name: 'https://api.example.com/orders', startTime: performance.now() } as PerformanceEntry
+      ]);
+      jest.advanceTimersByTime(500);
+      delete (performance as any).getEntriesByType;
+
+      expect(reportedTypes()).toEqual([EventType.DEAD_CLICK]);
+    });
+
+    it('should only check elements expected to respond', () => {
+      click(document.getElementById('text') as Element);
+      jest.advanceTimersByTime(500);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error clicks', () => {
+    beforeEach(() => {
+      detector.stop();
+      detector = new FrustrationDetector(callback, { rageClick: false, deadClick: false });
+      detector.start();
+    });
+
+    it('should report errors that follow a click once', () => {
+      click(button);
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Cannot read properties of undefined' }));
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Another error' }));
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0]).toMatchObject({
+        eventType: EventType.ERROR_CLICK,
+        properties: { selector: '#save', errorMessage: 'Cannot read properties of undefined', errorType: 'javascript' }
+      });
+    });
+
+    it('should ignore errors outside the time window', () => {
+      click(button);
+      jest.advanceTimersByTime(1500);
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Late error' }));
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+});
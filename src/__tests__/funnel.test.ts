@@ -0,0 +1,130 @@
+import { Funnel, FunnelContext } from '../funnel';
+import { StorageManager } from '../storage';
+import { EventType } from '../constants';
+
+describe('Funnel', () => {
+  let context: FunnelContext;
+  let track: jest.Mock;
+  let sessionId: string;
+  let now: number;
+  let dateNow: jest.SpyInstance;
+
+  const createFunnel = () => new Funnel({ name: 'checkout', steps: ['cart', 'shipping', 'payment', 'done'] }, context);
+  const getProperties = (index: number) => track.mock.calls[index][0].properties;
+
+  beforeEach(() => {
+    localStorage.clear();
+    now = 1000;
+    dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    track = jest.fn();
+    sessionId = 'session-1';
+    context = {
+      storage: new StorageManager(),
+      track,
+      getSessionId: () => sessionId,
+      log: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    dateNow.mockRestore();
+  });
+
+  it('should stamp funnel id, step index and time since previous step', () => {
+    const funnel = createFunnel();
+
+    funnel.step('cart', { items: 2 });
+    now += 3000;
+    funnel.step('shipping');
+
+    expect(track.mock.calls[0][0]).toMatchObject({ eventType: EventType.FUNNEL, eventName: 'funnel_step' });
+    expect(getProperties(0)).toEqual({
+      items: 2,
+      funnelName: 'checkout',
+      funnelId: expect.any(String),
+      stepName: 'cart',
+      stepIndex: 0,
+      stepCount: 4
+    });
+    expect(getProperties(1)).toMatchObject({
+      funnelId: getProperties(0).funnelId,
+      stepName: 'shipping',
+      stepIndex: 1,
+      timeSincePreviousStep: 3000
+    });
+  });
+
+  it('should report completion and clear the progress', () => {
+    const funnel = createFunnel();
+
+    funnel.step('cart');
+    now += 1000;
+    funnel.step('shipping');
+    funnel.step('payment');
+    now += 500;
+    funnel.step('done');
+
+    expect(track.mock.calls[4][0]).toMatchObject({
+      eventName: 'funnel_complete',
+      duration: 1500,
+      properties: { funnelId: getProperties(0).funnelId, stepName: 'done', stepIndex: 3 }
+    });
+    expect(funnel.getState()).toBeNull();
+  });
+
+  it('should detect skipped and out-of-order steps', () => {
+    const funnel = createFunnel();
+
+    funnel.step('shipping');
+    funnel.step('payment');
+    funnel.step('shipping');
+    funnel.step('done');
+
+    expect(getProperties(0).skippedSteps).toEqual(['cart']);
+    expect(getProperties(2).outOfOrder).toBe(true);
+    expect(getProperties(3)).not.toHaveProperty('skippedSteps');
+    expect(getProperties(3)).not.toHaveProperty('outOfOrder');
+  });
+
+  it('should ignore unknown steps', () => {
+    createFunnel().step('coupon');
+
+    expect(track).not.toHaveBeenCalled();
+    expect(context.log).toHaveBeenCalledWith('Unknown step "coupon" in funnel:', 'checkout');
+  });
+
+  it('should continue from persisted progress after reload', () => {
+    createFunnel().step('cart');
+    now += 2000;
+
+    const reloaded = createFunnel();
+    reloaded.step('shipping');
+
+    expect(getProperties(1)).toMatchObject({ funnelId: getProperties(0).funnelId, timeSincePreviousStep: 2000 });
+    expect(getProperties(1).skippedSteps).toBeUndefined();
+  });
+
+  it('should abandon the current funnel when restarted or the session changes', () => {
+    const funnel = createFunnel();
+
+    funnel.step('cart');
+    funnel.step('shipping');
+    funnel.step('cart');
+
+    expect(track.mock.calls[2][0]).toMatchObject({
+      eventName: 'funnel_abandon',
+      properties: { stepName: 'shipping', stepIndex: 1, reason: 'restart' }
+    });
+    expect(getProperties(3).funnelId).not.toBe(getProperties(0).funnelId);
+
+    sessionId = 'session-2';
+    funnel.step('shipping');
+
+    expect(track.mock.calls[4][0]).toMatchObject({
+      eventName: 'funnel_abandon',
+      sessionId: 'session-1',
+      properties: { stepName: 'cart', reason: 'session_end' }
+    });
+    expect(getProperties(5)).toMatchObject({ stepName: 'shipping', skippedSteps: ['cart'] });
+  });
+});
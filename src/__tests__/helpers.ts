@@ -0,0 +1,32 @@
+/**
+ * 默认格式上报的单个事件
+ */
+export interface ReportedEvent {
+  event_id: string;
+  event_name: string;
+  user_id?: string;
+  anonymous_id?: string;
+  session_id?: string;
+  timestamp: number;
+  app_id: string;
+  platform: string;
+  user_agent?: string;
+  page_url?: string;
+  duration?: number;
+  sample_rate?: number;
+  /** 自定义属性的 JSON 字符串 */
+  custom_properties?: string;
+}
+
+/**
+ * 按发送顺序获取 fetch 上报的全部事件
+ */
+export const getReportedEvents = (): ReportedEvent[] => (global.fetch as jest.Mock).mock.calls
+  .map(call => JSON.parse(call[1].body).events as ReportedEvent[])
+  .reduce((all, events) => all.concat(events), []);
+
+/**
+ * 解析事件的自定义属性
+ */
+export const getReportedProperties = (event?: ReportedEvent): Record<string, any> =>
+  JSON.parse(event?.custom_properties || '{}');
@@ -0,0 +1,56 @@
+import { onHistoryChange } from '../history';
+
+describe('onHistoryChange', () => {
+  afterEach(() => {
+    history.replaceState(null, '', '/');
+  });
+
+  it('should share one patch and restore it after the last listener is removed', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const removeFirst = onHistoryChange(first);
+    const removeSecond = onHistoryChange(second);
+    removeFirst();
+    history.pushState(null, '', '/shared');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    removeSecond();
+    expect(history.pushState).toBe(History.prototype.pushState);
+    expect(history.replaceState).toBe(History.prototype.replaceState);
+  });
+
+  it('should notify on popstate and hashchange', () => {
+    const listener = jest.fn();
+    const remove = onHistoryChange(listener);
+
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    remove();
+    window.dispatchEvent(new PopStateEvent('popstate'));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep wrappers installed later by other code', () => {
+    const listener = jest.fn();
+    const remove = onHistoryChange(listener);
+    const patched = history.pushState;
+    const outer = jest.fn(function(...args: Parameters<History['pushState']>) {
+      patched.apply(history, args);
+    });
+    history.pushState = outer;
+
+    remove();
+    expect(history.pushState).toBe(outer);
+
+    const removeAgain = onHistoryChange(listener);
+    history.pushState(null, '', '/outer');
+    removeAgain();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    history.pushState = History.prototype.pushState;
+  });
+});
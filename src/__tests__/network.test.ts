@@ -0,0 +1,149 @@
+import { NetworkInstrumentation, stripUrl } from '../network';
+
+/**
+ * 可控制响应的 XHR，send 后由测试调用 respond/fail
+ */
+class FakeXMLHttpRequest extends EventTarget {
+  static last: FakeXMLHttpRequest;
+  status = 0;
+
+  open(): void {
+    FakeXMLHttpRequest.last = this;
+  }
+
+  send(): void {
+    // 由测试触发结果
+  }
+
+  respond(status: number): void {
+    this.status = status;
+    this.dispatchEvent(new Event('load'));
+    this.dispatchEvent(new Event('loadend'));
+  }
+
+  fail(type: 'error' | 'timeout' | 'abort'): void {
+    this.dispatchEvent(new Event(type));
+    this.dispatchEvent(new Event('loadend'));
+  }
+}
+
+const { open: originalOpen, send: originalSend } = FakeXMLHttpRequest.prototype;
+
+describe('NetworkInstrumentation', () => {
+  let instrumentation: NetworkInstrumentation;
+  let handler: jest.Mock;
+  let fetchMock: jest.Mock;
+  const originalXhr = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    (global as any).XMLHttpRequest = FakeXMLHttpRequest;
+    handler = jest.fn();
+    instrumentation = new NetworkInstrumentation(handler, ['https://collect.example.com/track', /\/health$/]);
+    instrumentation.start();
+  });
+
+  afterEach(() => {
+    instrumentation.stop();
+    global.XMLHttpRequest = originalXhr;
+  });
+
+  it('should strip query strings and resolve relative urls', () => {
+    expect(stripUrl('/api/orders?page=2#top')).toBe('http://localhost/api/orders');
+    expect(stripUrl('https://api.example.com/users/1?token=abc')).toBe('https://api.example.com/users/1');
+  });
+
+  describe('fetch', () => {
+    it('should report responses with method, url, status and latency', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 500, type: 'basic' });
+
+      await fetch('/api/orders?page=2', { method: 'post' });
+
+      expect(handler).toHaveBeenCalledWith({
+        method: 'POST',
+        url: 'http://localhost/api/orders',
+        status: 500,
+        duration: expect.any(Number),
+        ok: false,
+        initiatorType: 'fetch'
+      });
+    });
+
+    it('should report network failures and rethrow them', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(fetch('https://api.example.com/users')).rejects.toThrow('Failed to fetch');
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        status: 0,
+        ok: false,
+        error: 'Failed to fetch'
+      }));
+    });
+
+    it('should skip aborted and ignored requests', async () => {
+      const abortError = new Error('The user aborted a request.');
+      abortError.name = 'AbortError';
+      fetchMock.mockRejectedValueOnce(abortError);
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+
+      await expect(fetch('/api/search')).rejects.toThrow();
+      await fetch('https://collect.example.com/track');
+      await fetch('/health');
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should restore the original fetch on stop', () => {
+      expect(global.fetch).not.toBe(fetchMock);
+
+      instrumentation.stop();
+
+      expect(global.fetch).toBe(fetchMock);
+    });
+  });
+
+  describe('XMLHttpRequest', () => {
+    it('should report responses', () => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('get', '/api/profile?id=1');
+      xhr.send();
+      (FakeXMLHttpRequest.last as FakeXMLHttpRequest).respond(404);
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        url: 'http://localhost/api/profile',
+        status: 404,
+        ok: false,
+        initiatorType: 'xmlhttprequest'
+      }));
+    });
+
+    it('should report timeouts but not aborts', () => {
+      const first = new XMLHttpRequest();
+      first.open('GET', '/api/slow');
+      first.send();
+      (FakeXMLHttpRequest.last as FakeXMLHttpRequest).fail('timeout');
+
+      const second = new XMLHttpRequest();
+      second.open('GET', '/api/cancelled');
+      second.send();
+      (FakeXMLHttpRequest.last as FakeXMLHttpRequest).fail('abort');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ status: 0, error: 'XMLHttpRequest timeout' }));
+    });
+
+    it('should restore the original methods on stop', () => {
+      expect(FakeXMLHttpRequest.prototype.open).not.toBe(originalOpen);
+
+      instrumentation.stop();
+
+      expect(FakeXMLHttpRequest.prototype.open).toBe(originalOpen);
+      expect(FakeXMLHttpRequest.prototype.send).toBe(originalSend);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { PerformancePlugin } from '../collector';
+import { EventType } from '../constants';
+import { PluginTracker } from '../types';
+import { getNavigationTiming } from '../utils';
+
+// Mock PerformanceObserver, tests deliver entries manually
+class MockPerformanceObserver {
+  static supportedEntryTypes = ['paint', 'largest-contentful-paint', 'layout-shift', 'event', 'first-input'];
+  static instances: MockPerformanceObserver[] = [];
+  type = '';
+  callback: (list: { getEntries: () => Partial<PerformanceEntry>[] }) => void;
+
+  constructor(callback: (list: { getEntries: () => Partial<PerformanceEntry>[] }) => void) {
+    this.callback = callback;
+    MockPerformanceObserver.instances.push(this);
+  }
+
+  observe = jest.fn((options: { type: string }) => {
+    this.type = options.type;
+  });
+  disconnect = jest.fn();
+
+  static emit(type: string, entries: Record<string, unknown>[]): void {
+    MockPerformanceObserver.instances
+      .filter(observer => observer.type === type)
+      .forEach(observer => observer.callback({ getEntries: () => entries }));
+  }
+}
+(global as any).PerformanceObserver = MockPerformanceObserver;
+
+describe('PerformancePlugin', () => {
+  let plugin: PerformancePlugin;
+  let tracker: { captureEvent: jest.Mock };
+  let visibility: jest.SpyInstance;
+
+  const getVitals = () => tracker.captureEvent.mock.calls
+    .map(call => call[0])
+    .filter(event => event.eventName === 'web_vitals')
+    .map(event => event.properties);
+
+  const hidePage = () => {
+    visibility.mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockPerformanceObserver.instances = [];
+    visibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+    tracker = { captureEvent: jest.fn() };
+    plugin = new PerformancePlugin();
+    plugin.setup(tracker as unknown as PluginTracker);
+  });
+
+  afterEach(() => {
+    plugin.teardown();
+    visibility.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('should report navigation timing after the page has loaded', () => {
+    const entry = { type: 'reload', responseStart: 120, domContentLoadedEventEnd: 600, loadEventEnd: 900 };
+    Object.defineProperty(performance, 'getEntriesByType', { value: jest.fn(() => [entry]), configurable: true });
+    plugin.teardown();
+    tracker.captureEvent.mockClear();
+
+    plugin.setup(tracker as unknown as PluginTracker);
+    jest.runOnlyPendingTimers();
+    delete (performance as any).getEntriesByType;
+
+    expect(tracker.captureEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: EventType.PERFORMANCE,
+      eventName: 'navigation_timing',
+      properties: expect.objectContaining({ metricName: 'navigation', value: 900, navigationType: 'reload', ttfb: 120 })
+    }));
+  });
+
+  it('should report FCP once with a rating', () => {
+    MockPerformanceObserver.emit('paint', [
+      { name: 'first-paint', startTime: 800 },
+      { name: 'first-contentful-paint', startTime: 2000.4 }
+    ]);
+    MockPerformanceObserver.emit('paint', [{ name: 'first-contentful-paint', startTime: 2500 }]);
+
+    expect(tracker.captureEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: EventType.PERFORMANCE,
+      eventName: 'web_vitals'
+    }));
+    expect(getVitals()).toEqual([{ metricName: 'FCP', value: 2000, rating: 'needs-improvement' }]);
+  });
+
+  it('should report LCP, CLS and INP once when the page is hidden', () => {
+    MockPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1200 }, { startTime: 4500 }]);
+    MockPerformanceObserver.emit('layout-shift', [
+      // 同一会话窗口内累计
+      { startTime: 100, value: 0.05, hadRecentInput: false },
+      { startTime: 600, value: 0.04, hadRecentInput: false },
+      // 用户输入后的偏移不计入
+      { startTime: 700, value: 0.5, hadRecentInput: true },
+      // 间隔超过 1s，开始新的会话窗口
+      { startTime: 3000, value: 0.02, hadRecentInput: false }
+    ]);
+    MockPerformanceObserver.emit('event', [
+      { interactionId: 1, duration: 80 },
+      { interactionId: 1, duration: 240 },
+      { interactionId: 2, duration: 120 },
+      { interactionId: 0, duration: 900 }
+    ]);
+
+    expect(getVitals()).toEqual([]);
+
+    hidePage();
+    hidePage();
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(getVitals()).toEqual([
+      { metricName: 'LCP', value: 4500, rating: 'poor' },
+      { metricName: 'CLS', value: 0.09, rating: 'good' },
+      { metricName: 'INP', value: 240, rating: 'needs-improvement' }
+    ]);
+    expect(MockPerformanceObserver.instances.every(observer => observer.disconnect.mock.calls.length > 0)).toBe(true);
+  });
+
+  it('should use the 98th percentile for INP with many interactions', () => {
+    const entries = Array.from({ length: 100 }, (_, index) => ({ interactionId: index + 1, duration: (index + 1) * 10 }));
+    MockPerformanceObserver.emit('event', entries);
+
+    hidePage();
+
+    // 100 次交互时忽略最慢的 2 次
+    expect(getVitals()).toEqual([{ metricName: 'INP', value: 980, rating: 'poor' }]);
+  });
+
+  it('should not report metrics that were never observed', () => {
+    hidePage();
+
+    expect(getVitals()).toEqual([]);
+  });
+
+  it('should stop observing on teardown', () => {
+    plugin.teardown();
+    MockPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1200 }]);
+    hidePage();
+
+    expect(getVitals()).toEqual([]);
+  });
+});
+
+describe('getNavigationTiming', () => {
+  afterEach(() => {
+    delete (performance as any).getEntriesByType;
+    delete (performance as any).timing;
+  });
+
+  it('should read Navigation Timing Level 2 entries', () => {
+    const entry = {
+      type: 'navigate',
+      domainLookupStart: 10,
+      domainLookupEnd: 30,
+      connectStart: 30,
+      connectEnd: 70,
+      requestStart: 80,
+      responseStart: 250.6,
+      domContentLoadedEventEnd: 900,
+      loadEventEnd: 1500
+    };
+    Object.defineProperty(performance, 'getEntriesByType', { value: jest.fn(() => [entry]), configurable: true });
+
+    expect(getNavigationTiming()).toEqual({
+      metricName: 'navigation',
+      value: 1500,
+      navigationType: 'navigate',
+      dns: 20,
+      tcp: 40,
+      ttfb: 251,
+      domContentLoaded: 900,
+      load: 1500
+    });
+  });
+
+  it('should fall back to performance.timing', () => {
+    Object.defineProperty(performance, 'getEntriesByType', { value: jest.fn(() => []), configurable: true });
+    Object.defineProperty(performance, 'timing', {
+      value: {
+        navigationStart: 1000,
+        domainLookupStart: 1010,
+        domainLookupEnd: 1030,
+        connectStart: 1030,
+        connectEnd: 1070,
+        requestStart: 1080,
+        responseStart: 1250,
+        domContentLoadedEventEnd: 1900,
+        loadEventEnd: 2500
+      },
+      configurable: true
+    });
+
+    expect(getNavigationTiming()).toEqual({
+      metricName: 'navigation',
+      value: 1500,
+      dns: 20,
+      tcp: 40,
+      ttfb: 250,
+      domContentLoaded: 900,
+      load: 1500
+    });
+  });
+
+  it('should return null when timing is unavailable', () => {
+    Object.defineProperty(performance, 'getEntriesByType', { value: jest.fn(() => []), configurable: true });
+    Object.defineProperty(performance, 'timing', { value: undefined, configurable: true });
+
+    expect(getNavigationTiming()).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { ArgosTracker } from '../tracker';
+import { EventType, ReportMethod } from '../constants';
+import { ArgosPlugin, TrackerConfig } from '../types';
+import { getReportedEvents } from './helpers';
+
+global.fetch = jest.fn();
+
+/**
+ * 记录调用情况的测试插件
+ */
+function createPlugin(overrides: Partial<ArgosPlugin> = {}): ArgosPlugin & { tracker?: ArgosTracker } {
+  const plugin: ArgosPlugin & { tracker?: ArgosTracker } = {
+    name: 'video',
+    setup: jest.fn(tracker => {
+      plugin.tracker = tracker;
+    }),
+    teardown: jest.fn(),
+    ...overrides
+  };
+  return plugin;
+}
+
+describe('Plugins', () => {
+  let tracker: ArgosTracker;
+  let config: TrackerConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200 });
+    config = {
+      reportUrl: 'https://api.example.com/track',
+      appId: 'test-app',
+      reportMethod: ReportMethod.IMMEDIATE,
+      autoTrackPageView: false,
+      autoTrackClick: false,
+      autoTrackError: false
+    };
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+  });
+
+  it('should set up plugins and report their events', async () => {
+    tracker = new ArgosTracker(config);
+    const plugin = createPlugin();
+
+    tracker.use(plugin);
+    plugin.tracker?.captureEvent({ eventType: EventType.USER_ACTION, eventName: 'video_play', properties: { videoId: 'v1' } });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(plugin.setup).toHaveBeenCalledWith(tracker);
+    expect(tracker.getPlugins()).toEqual(['video']);
+    expect(getReportedEvents()).toEqual([
+      expect.objectContaining({ event_name: 'video_play', custom_properties: JSON.stringify({ videoId: 'v1' }) })
+    ]);
+  });
+
+  it('should tear down plugins when unregistered or destroyed', () => {
+    tracker = new ArgosTracker(config);
+    const video = createPlugin();
+    const form = createPlugin({ name: 'form' });
+
+    const unregister = tracker.use(video);
+    tracker.use(form);
+    unregister();
+
+    expect(video.teardown).toHaveBeenCalledTimes(1);
+    expect(tracker.getPlugins()).toEqual(['form']);
+
+    tracker.destroy();
+
+    expect(form.teardown).toHaveBeenCalledTimes(1);
+    expect(tracker.getPlugins()).toEqual([]);
+  });
+
+  it('should ignore plugins with a registered name', () => {
+    tracker = new ArgosTracker(config);
+    const first = createPlugin();
+    const second = createPlugin();
+
+    tracker.use(first);
+    const unregister = tracker.use(second);
+    unregister();
+
+    expect(second.setup).not.toHaveBeenCalled();
+    expect(first.teardown).not.toHaveBeenCalled();
+    expect(tracker.getPlugins()).toEqual(['video']);
+  });
+
+  it('should not register plugins whose setup fails', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    tracker = new ArgosTracker(config);
+    const plugin = createPlugin({ setup: () => { throw new Error('unsupported'); } });
+
+    tracker.use(plugin);
+    warn.mockRestore();
+
+    expect(plugin.teardown).toHaveBeenCalledTimes(1);
+    expect(tracker.getPlugins()).toEqual([]);
+  });
+
+  it('should run beforeSend and afterSend hooks', async () => {
+    tracker = new ArgosTracker(config);
+    const afterSend = jest.fn();
+    const plugin = createPlugin({
+      beforeSend: event => (event.eventName === 'internal' ? null : { ...event, properties: { ...event.properties, plugin: 'video' } }),
+      afterSend
+    });
+
+    tracker.use(plugin);
+    tracker.track('internal');
+    tracker.track('checkout');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(getReportedEvents()).toEqual([
+      expect.objectContaining({ event_name: 'checkout', custom_properties: JSON.stringify({ plugin: 'video' }) })
+    ]);
+    expect(afterSend).toHaveBeenCalledWith(
+      [expect.objectContaining({ eventName: 'checkout' })],
+      expect.objectContaining({ success: true }),
+      'default'
+    );
+  });
+
+  describe('built-in plugins', () => {
+    it('should register collectors from config', () => {
+      tracker = new ArgosTracker({ ...config, autoTrackClick: true, autoTrackError: true });
+
+      expect(tracker.getPlugins()).toEqual(['argos:click', 'argos:error']);
+    });
+
+    it('should only restart collectors affected by consent changes', () => {
+      tracker = new ArgosTracker({ ...config, autoTrackClick: true, autoTrackError: true });
+
+      tracker.optOut(['analytics']);
+      expect(tracker.getPlugins()).toEqual(['argos:error']);
+
+      tracker.optIn(['analytics']);
+      expect(tracker.getPlugins()).toEqual(['argos:error', 'argos:click']);
+    });
+  });
+});
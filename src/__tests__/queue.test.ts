@@ -0,0 +1,151 @@
+import { MemoryQueueBackend, PendingEventQueue, LocalStorageQueueBackend } from '../queue';
+import { EventType } from '../constants';
+import { StorageManager } from '../storage';
+import { TrackEvent } from '../types';
+
+const createEvent = (eventName: string, eventType: EventType = EventType.CUSTOM): TrackEvent => ({
+  eventType,
+  eventName,
+  timestamp: Date.now()
+});
+
+describe('PendingEventQueue', () => {
+  it('should acknowledge events by record id', async () => {
+    const queue = new PendingEventQueue({ storage: new MemoryQueueBackend() });
+
+    const [firstId] = await queue.save([createEvent('first')]);
+    await queue.save([createEvent('second')]);
+    await queue.remove([firstId]);
+
+    const records = await queue.getAll();
+    expect(records.map(record => record.event.eventName)).toEqual(['second']);
+  });
+
+  it('should evict oldest events when exceeding max events', async () => {
+    const queue = new PendingEventQueue({ storage: new MemoryQueueBackend(), maxEvents: 2 });
+
+    await queue.save([createEvent('e1'), createEvent('e2')]);
+    await queue.save([createEvent('e3')]);
+
+    const records = await queue.getAll();
+    expect(records.map(record => record.event.eventName)).toEqual(['e2', 'e3']);
+  });
+
+  it('should evict low priority events first with priority policy', async () => {
+    const queue = new PendingEventQueue({
+      storage: new MemoryQueueBackend(),
+      maxEvents: 2,
+      evictionPolicy: 'priority'
+    });
+
+    await queue.save([createEvent('error', EventType.ERROR), createEvent('click', EventType.CLICK)]);
+    await queue.save([createEvent('custom')]);
+
+    const records = await queue.getAll();
+    expect(records.map(record => record.event.eventName)).toEqual(['error', 'custom']);
+  });
+
+  it('should evict events when exceeding max bytes', async () => {
+    const queue = new PendingEventQueue({ storage: new MemoryQueueBackend(), maxBytes: 200 });
+
+    await queue.save([createEvent('a'.repeat(100))]);
+    await queue.save([createEvent('b'.repeat(100))]);
+
+    const records = await queue.getAll();
+    expect(records).toHaveLength(1);
+    expect(records[0].event.eventName).toBe('b'.repeat(100));
+  });
+});
+
+describe('LocalStorageQueueBackend', () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    store = {};
+    jest.spyOn(Storage.prototype, 'getItem').mockImplementation(key => store[key] ?? null);
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation((key, value) => {
+      store[key] = value;
+    });
+    jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(key => {
+      delete store[key];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read legacy pending events without record ids', async () => {
+    const backend = new LocalStorageQueueBackend('legacy_key');
+    store.legacy_key = JSON.stringify([createEvent('legacy')]);
+
+    const records = await backend.getAll();
+
+    expect(records).toHaveLength(1);
+    expect(records[0].id).toBeDefined();
+    expect(records[0].event.eventName).toBe('legacy');
+  });
+
+  it('should keep legacy record ids stable so they can be removed', async () => {
+    const backend = new LocalStorageQueueBackend('legacy_key');
+    store.legacy_key = JSON.stringify([createEvent('legacy')]);
+
+    const [record] = await backend.getAll();
+    expect((await backend.getAll())[0].id).toBe(record.id);
+
+    await backend.remove([record.id]);
+    expect(await backend.getAll()).toEqual([]);
+  });
+
+  it('should free space and retry when quota is exceeded', async () => {
+    const queue = new PendingEventQueue({ storage: new LocalStorageQueueBackend('quota_key') });
+    await queue.save([createEvent('old1'), createEvent('old2')]);
+
+    const setItem = Storage.prototype.setItem as jest.Mock;
+    const quotaError = Object.assign(new Error('quota'), { name: 'QuotaExceededError' });
+    let failed = false;
+    setItem.mockImplementation((key: string, value: string) => {
+      if (!failed && JSON.parse(value).length === 3) {
+        failed = true;
+        throw quotaError;
+      }
+      store[key] = value;
+    });
+
+    await queue.save([createEvent('new')]);
+
+    const records = await queue.getAll();
+    expect(records.map(record => record.event.eventName)).toEqual(['old2', 'new']);
+  });
+});
+
+describe('StorageManager', () => {
+  it('should resolve clear after the offline queue is emptied', async () => {
+    let cleared = false;
+    class SlowQueueBackend extends MemoryQueueBackend {
+      async clear(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        cleared = true;
+        return super.clear();
+      }
+    }
+    const storage = new StorageManager({ storage: new SlowQueueBackend() });
+
+    await storage.savePendingEvents([createEvent('queued')]);
+    await storage.clear();
+
+    expect(cleared).toBe(true);
+    expect(await storage.getPendingEvents()).toEqual([]);
+  });
+
+  it('should merge the unload backup into the offline queue', async () => {
+    const storage = new StorageManager({ storage: new MemoryQueueBackend() });
+
+    storage.backupPendingEvents([createEvent('unload')], 'rum');
+    storage.backupPendingEvents([createEvent('default')]);
+
+    expect((await storage.getPendingEvents('rum')).map(record => record.event.eventName)).toEqual(['unload']);
+    expect((await storage.getPendingEvents()).map(record => record.event.eventName)).toEqual(['default']);
+    expect(localStorage.getItem('argos_unload_events')).toBeNull();
+  });
+});
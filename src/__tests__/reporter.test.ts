@@ -0,0 +1,152 @@
+import { Reporter } from '../reporter';
+import { EventType, ReportMethod } from '../constants';
+import { TrackerConfig, TrackEvent } from '../types';
+import { gzip, isCompressionSupported } from '../compression';
+
+jest.mock('../compression', () => ({
+  isCompressionSupported: jest.fn(() => true),
+  gzip: jest.fn(async () => new ArrayBuffer(16))
+}));
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('Reporter', () => {
+  let config: TrackerConfig;
+  let events: TrackEvent[];
+
+  const getRequest = (): any => (global.fetch as jest.Mock).mock.calls[0][1];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    config = {
+      reportUrl: 'https://api.example.com/track',
+      appId: 'test-app',
+      reportMethod: ReportMethod.IMMEDIATE,
+      transports: ['fetch']
+    };
+
+    events = [
+      {
+        eventType: EventType.CUSTOM,
+        eventName: 'purchase',
+        properties: { amount: 99 },
+        timestamp: 1640995200000,
+        userId: 'user-123',
+        anonymousId: 'anon-456',
+        sessionId: 'session-789',
+        pageUrl: 'https://example.com/checkout',
+        pageTitle: 'Checkout'
+      },
+      {
+        eventType: EventType.PAGE_VIEW,
+        eventName: 'page_view',
+        timestamp: 1640995201000,
+        anonymousId: 'anon-456',
+        pageUrl: 'https://example.com/',
+        pageTitle: 'Home'
+      }
+    ];
+
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200 });
+  });
+
+  describe('Payload Formats', () => {
+    it('should keep the legacy format by default', async () => {
+      await new Reporter(config).report(events);
+
+      const body = JSON.parse(getRequest().body);
+      expect(body.events[0].custom_properties).toBe('{"amount":99}');
+      expect(body.events[0].app_id).toBe('test-app');
+    });
+
+    it('should nest properties in json format', async () => {
+      await new Reporter({ ...config, payloadFormat: 'json' }).report(events);
+
+      const body = JSON.parse(getRequest().body);
+      expect(body.events[0].custom_properties).toEqual({ amount: 99 });
+      expect(body.events[0].event_type).toBe(EventType.CUSTOM);
+    });
+
+    it('should write one event per line in ndjson format', async () => {
+      await new Reporter({ ...config, payloadFormat: 'ndjson' }).report(events);
+
+      const request = getRequest();
+      const lines = request.body.split('\n');
+      expect(request.headers['Content-Type']).toBe('application/x-ndjson');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).event_name).toBe('page_view');
+    });
+
+    it('should map events to segment messages', async () => {
+      await new Reporter({ ...config, payloadFormat: 'segment' }).report(events);
+
+      const { batch } = JSON.parse(getRequest().body);
+      expect(batch[0]).toMatchObject({
+        type: 'track',
+        event: 'purchase',
+        userId: 'user-123',
+        anonymousId: 'anon-456',
+        properties: { amount: 99 },
+        timestamp: '2022-01-01T00:00:00.000Z'
+      });
+      expect(batch[1]).toMatchObject({ type: 'page', name: 'Home' });
+    });
+
+    it('should accept a custom serializer', async () => {
+      const serializer = {
+        name: 'csv',
+        contentType: 'text/csv',
+        serialize: (items: TrackEvent[]) => items.map(item => item.eventName).join(',')
+      };
+
+      await new Reporter({ ...config, payloadFormat: serializer }).report(events);
+
+      expect(getRequest().body).toBe('purchase,page_view');
+      expect(getRequest().headers['Content-Type']).toBe('text/csv');
+    });
+  });
+
+  describe('Compression', () => {
+    it('should gzip payloads above the threshold', async () => {
+      await new Reporter({ ...config, compression: { enabled: true, threshold: 10 } }).report(events);
+
+      const request = getRequest();
+      expect(gzip).toHaveBeenCalledTimes(1);
+      expect(request.body).toBeInstanceOf(ArrayBuffer);
+      expect(request.headers['Content-Encoding']).toBe('gzip');
+    });
+
+    it('should not compress payloads below the threshold', async () => {
+      await new Reporter({ ...config, compression: { enabled: true, threshold: 1024 * 1024 } }).report(events);
+
+      expect(gzip).not.toHaveBeenCalled();
+      expect(getRequest().headers['Content-Encoding']).toBeUndefined();
+    });
+
+    it('should send uncompressed payloads when CompressionStream is unavailable', async () => {
+      (isCompressionSupported as jest.Mock).mockReturnValueOnce(false);
+
+      await new Reporter({ ...config, compression: { enabled: true, threshold: 10 } }).report(events);
+
+      expect(gzip).not.toHaveBeenCalled();
+      expect(typeof getRequest().body).toBe('string');
+    });
+
+    it('should not compress for transports that cannot set headers', async () => {
+      const transport = {
+        name: 'custom',
+        isSupported: () => true,
+        send: jest.fn().mockResolvedValue({ success: true, retryable: false })
+      };
+      const reporter = new Reporter({ ...config, compression: { enabled: true, threshold: 10 } });
+      reporter.registerTransport(transport);
+
+      await reporter.report(events);
+
+      expect(gzip).not.toHaveBeenCalled();
+      expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({ body: expect.any(String) }));
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { SchemaValidator } from '../schema';
+import { EventType } from '../constants';
+import { SchemaConfig } from '../types';
+
+describe('SchemaValidator', () => {
+  const config: SchemaConfig = {
+    events: {
+      checkout: {
+        properties: {
+          orderId: { type: 'string', required: true, maxLength: 8 },
+          amount: { type: 'number', required: true },
+          currency: { type: 'string', enum: ['CNY', 'USD'] },
+          items: { type: 'array' }
+        }
+      }
+    }
+  };
+
+  const checkout = (properties: Record<string, any>) => ({
+    eventType: EventType.CUSTOM,
+    eventName: 'checkout',
+    properties
+  });
+
+  it('should accept events matching the schema', () => {
+    const validator = new SchemaValidator(config);
+
+    expect(validator.validate(checkout({ orderId: 'A1', amount: 99, currency: 'CNY', items: [] }))).toEqual([]);
+  });
+
+  it('should report required, type, enum and length violations', () => {
+    const validator = new SchemaValidator(config);
+
+    const violations = validator.validate(checkout({ orderId: 'A123456789', amount: '99', currency: 'EUR' }));
+
+    expect(violations.map(violation => [violation.property, violation.rule])).toEqual([
+      ['orderId', 'maxLength'],
+      ['amount', 'type'],
+      ['currency', 'enum']
+    ]);
+    expect(validator.validate(checkout({ amount: 1 }))).toEqual([
+      { property: 'orderId', rule: 'required', message: 'Property "orderId" is required' }
+    ]);
+  });
+
+  it('should reject undeclared events and properties when configured', () => {
+    const validator = new SchemaValidator({ ...config, allowUnknownEvents: false, allowUnknownProperties: false });
+
+    expect(validator.validate({ eventType: EventType.USER_ACTION, eventName: 'share' })).toEqual([]);
+    expect(validator.validate({ eventType: EventType.CUSTOM, eventName: 'chekout' })).toEqual([
+      { rule: 'unknown_event', message: 'Event "chekout" is not declared' }
+    ]);
+    expect(validator.validate(checkout({ orderId: 'A1', amount: 1, coupon: 'X' }))).toEqual([
+      { property: 'coupon', rule: 'unknown_property', message: 'Property "coupon" is not declared' }
+    ]);
+  });
+
+  it('should skip validation of auto-collected and diagnostic events', () => {
+    const validator = new SchemaValidator({ ...config, allowUnknownEvents: false });
+
+    expect(validator.validate({ eventType: EventType.CLICK, eventName: 'click' })).toEqual([]);
+    expect(validator.validate({ eventType: EventType.DIAGNOSTIC, eventName: 'schema_violation' })).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { getElementSelector, getElementXPath } from '../selector';
+
+describe('Selector', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const query = (selector: string) => document.querySelector(selector) as Element;
+
+  describe('getElementSelector', () => {
+    it('should prefer stable test attributes', () => {
+      document.body.innerHTML = '<div id="app"><button data-testid="submit" class="css-1x2y3z">OK</button></div>';
+
+      expect(getElementSelector(query('button'))).toBe('[data-testid="submit"]');
+    });
+
+    it('should use a unique id that is not generated', () => {
+      document.body.innerHTML = '<div><button id="checkout">OK</button><span id=":r1:">x</span></div>';
+
+      expect(getElementSelector(query('button'))).toBe('#checkout');
+      expect(getElementSelector(query('span'))).toBe('body > div > span');
+    });
+
+    it('should skip hashed class names', () => {
+      document.body.innerHTML = '<main id="main"><a href="/" class="css-1q2w3e nav_link__a8Bc3 sc-bdVaJa nav-link">Home</a></main>';
+
+      expect(getElementSelector(query('a'))).toBe('#main > a.nav-link');
+    });
+
+    it('should skip custom class patterns', () => {
+      document.body.innerHTML = '<main id="main"><a href="/" class="tw-abc nav-link">Home</a></main>';
+
+      expect(getElementSelector(query('a'), { ignoreClassPatterns: [/^tw-/] })).toBe('#main > a.nav-link');
+    });
+
+    it('should only add nth-child when siblings are ambiguous', () => {
+      document.body.innerHTML = `
+        <ul id="list">
+          <li class="title">Title</li>
+          <li class="item">A</li>
+          <li class="item">B</li>
+        </ul>
+      `;
+      const items = document.querySelectorAll('li.item');
+
+      expect(getElementSelector(query('li.title'))).toBe('#list > li.title');
+      expect(getElementSelector(items[1])).toBe('#list > li.item:nth-child(3)');
+      expect(document.querySelector(getElementSelector(items[1]))).toBe(items[1]);
+    });
+
+    it('should count nth-child among all children', () => {
+      document.body.innerHTML = '<div id="row"><span>label</span><button>A</button><button>B</button></div>';
+      const buttons = document.querySelectorAll('button');
+
+      expect(document.querySelector(getElementSelector(buttons[0]))).toBe(buttons[0]);
+      expect(document.querySelector(getElementSelector(buttons[1]))).toBe(buttons[1]);
+    });
+
+    it('should support SVG elements', () => {
+      document.body.innerHTML = '<button id="close"><svg class="icon"><path d="M0 0"></path></svg></button>';
+
+      expect(getElementSelector(query('path'))).toBe('#close > svg.icon > path');
+    });
+  });
+
+  describe('getElementXPath', () => {
+    it('should anchor on a unique id', () => {
+      document.body.innerHTML = '<ul id="list"><li>A</li><li>B</li></ul>';
+
+      expect(getElementXPath(document.querySelectorAll('li')[1])).toBe('//*[@id="list"]/li[2]');
+    });
+
+    it('should build an absolute path without ids', () => {
+      document.body.innerHTML = '<div><p>A</p></div><div><p>B</p><p>C</p></div>';
+
+      expect(getElementXPath(document.querySelectorAll('p')[2])).toBe('/html/body/div[2]/p[2]');
+    });
+
+    it('should use local-name() for SVG elements', () => {
+      document.body.innerHTML = '<button id="close"><svg><path d="M0 0"></path></svg></button>';
+
+      expect(getElementXPath(query('path'))).toBe('//*[@id="close"]/*[local-name()="svg"]/*[local-name()="path"]');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { getErrorFingerprint, parseStackTrace } from '../stacktrace';
+
+describe('Stack trace', () => {
+  describe('parseStackTrace', () => {
+    it('should parse Chrome stacks', () => {
+      const stack = [
+        'TypeError: Cannot read properties of undefined (reading \'id\') at user@example.com',
+        '    at handleClick (https://example.com/static/app.js:120:15)',
+        '    at async Promise.all (index 0)',
+        '    at Object.<anonymous> (https://example.com/static/vendor.js?v=2:1:300)',
+        '    at https://example.com/static/app.js:5:10',
+        '    at eval (eval at compile (https://example.com/static/app.js:40:3), <anonymous>:1:1)'
+      ].join('\n');
+
+      expect(parseStackTrace(stack)).toEqual([
+        { function: 'handleClick', filename: 'https://example.com/static/app.js', lineno: 120, colno: 15 },
+        { function: 'Object.<anonymous>', filename: 'https://example.com/static/vendor.js?v=2', lineno: 1, colno: 300 },
+        { filename: 'https://example.com/static/app.js', lineno: 5, colno: 10 },
+        { function: 'eval', filename: 'https://example.com/static/app.js', lineno: 40, colno: 3 }
+      ]);
+    });
+
+    it('should parse Firefox stacks', () => {
+      const stack = [
+        'handleClick@https://example.com/static/app.js:120:15',
+        'render/<@https://example.com/static/app.js:80:7',
+        '@https://example.com/static/app.js:5:10',
+        'compile@https://example.com/static/app.js line 40 > eval:1:1'
+      ].join('\n');
+
+      expect(parseStackTrace(stack)).toEqual([
+        { function: 'handleClick', filename: 'https://example.com/static/app.js', lineno: 120, colno: 15 },
+        { function: 'render/<', filename: 'https://example.com/static/app.js', lineno: 80, colno: 7 },
+        { filename: 'https://example.com/static/app.js', lineno: 5, colno: 10 },
+        { function: 'compile', filename: 'https://example.com/static/app.js', lineno: 40 }
+      ]);
+    });
+
+    it('should parse Safari stacks', () => {
+      const stack = [
+        'handleClick@https://example.com/static/app.js:120:15',
+        'forEach@[native code]',
+        'global code@https://example.com/static/app.js:5:10',
+        '[native code]'
+      ].join('\n');
+
+      expect(parseStackTrace(stack)).toEqual([
+        { function: 'handleClick', filename: 'https://example.com/static/app.js', lineno: 120, colno: 15 },
+        { function: 'forEach', filename: '[native code]' },
+        { function: 'global code', filename: 'https://example.com/static/app.js', lineno: 5, colno: 10 }
+      ]);
+    });
+
+    it('should return an empty list without a stack', () => {
+      expect(parseStackTrace(undefined)).toEqual([]);
+      expect(parseStackTrace('Error: boom')).toEqual([]);
+    });
+  });
+
+  describe('getErrorFingerprint', () => {
+    const frames = [{ function: 'load', filename: 'https://example.com/app.js?v=1', lineno: 10, colno: 2 }];
+
+    it('should group errors that differ only in variable values', () => {
+      const first = getErrorFingerprint('javascript', 'Request 123 failed for "alice"', frames);
+      const second = getErrorFingerprint('javascript', 'Request 456 failed for "bob"', [
+        { ...frames[0], filename: 'https://example.com/app.js?v=2' }
+      ]);
+
+      expect(first).toMatch(/^[0-9a-f]{8}$/);
+      expect(first).toBe(second);
+    });
+
+    it('should separate errors from different locations', () => {
+      expect(getErrorFingerprint('javascript', 'boom', frames))
+        .not.toBe(getErrorFingerprint('javascript', 'boom', [{ ...frames[0], lineno: 11 }]));
+      expect(getErrorFingerprint('javascript', 'Script error.', [], { filename: 'a.js', lineno: 1 }))
+        .not.toBe(getErrorFingerprint('javascript', 'Script error.', [], { filename: 'b.js', lineno: 1 }));
+    });
+  });
+});
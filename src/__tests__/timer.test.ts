@@ -0,0 +1,76 @@
+import { EventTimers } from '../timer';
+
+describe('EventTimers', () => {
+  let timers: EventTimers;
+  let now: number;
+  let visibility: jest.SpyInstance;
+  let dateNow: jest.SpyInstance;
+
+  const setVisibility = (state: 'visible' | 'hidden') => {
+    visibility.mockReturnValue(state);
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    visibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+    timers = new EventTimers();
+    timers.start();
+  });
+
+  afterEach(() => {
+    timers.stop();
+    visibility.mockRestore();
+    dateNow.mockRestore();
+  });
+
+  it('should return the elapsed time and remove the timer', () => {
+    timers.begin('checkout');
+    now += 1500;
+
+    expect(timers.end('checkout')).toBe(1500);
+    expect(timers.end('checkout')).toBeUndefined();
+  });
+
+  it('should keep concurrent timers apart by key', () => {
+    timers.begin('video_load', 'intro');
+    now += 200;
+    timers.begin('video_load', 'trailer');
+    now += 300;
+
+    expect(timers.end('video_load', 'trailer')).toBe(300);
+    expect(timers.end('video_load')).toBeUndefined();
+    expect(timers.end('video_load', 'intro')).toBe(500);
+  });
+
+  it('should pause while the page is hidden', () => {
+    timers.begin('checkout');
+    now += 100;
+    setVisibility('hidden');
+    now += 10000;
+    setVisibility('visible');
+    now += 50;
+
+    expect(timers.end('checkout')).toBe(150);
+  });
+
+  it('should start paused when the page is hidden', () => {
+    visibility.mockReturnValue('hidden');
+    timers.begin('checkout');
+    now += 5000;
+    setVisibility('visible');
+    now += 20;
+
+    expect(timers.end('checkout')).toBe(20);
+  });
+
+  it('should restart an existing timer', () => {
+    timers.begin('checkout');
+    now += 400;
+    timers.begin('checkout');
+    now += 100;
+
+    expect(timers.end('checkout')).toBe(100);
+  });
+});
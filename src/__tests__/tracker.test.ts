@@ -1,6 +1,7 @@
 import { ArgosTracker } from '../tracker';
 import { EventType, ReportMethod } from '../constants';
 import { TrackerConfig } from '../types';
+import { getReportedEvents, getReportedProperties } from './helpers';
 
 // Mock localStorage
 Object.defineProperty(window, 'localStorage', {
@@ -16,6 +17,15 @@ Object.defineProperty(window, 'localStorage', {
 // Mock fetch
 global.fetch = jest.fn();
 
+// Mock XMLHttpRequest so transport fallback never hits the network
+class MockXMLHttpRequest {
+  onerror: (() => void) | null = null;
+  open = jest.fn();
+  setRequestHeader = jest.fn();
+  send = jest.fn(() => setTimeout(() => this.onerror?.(), 0));
+}
+(global as any).XMLHttpRequest = MockXMLHttpRequest;
+
 // Mock navigator.sendBeacon
 Object.defineProperty(navigator, 'sendBeacon', {
   value: jest.fn(),
@@ -142,6 +152,202 @@ describe('ArgosTracker', () => {
     });
   });
 
+  describe('Middleware', () => {
+    const getLastEvent = () => {
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      return JSON.parse(calls[calls.length - 1][1].body).events[0];
+    };
+
+    it('should apply beforeSend before queueing events', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        beforeSend: event => ({ ...event, pageUrl: event.pageUrl?.split('?')[0] })
+      });
+      history.replaceState(null, '', '/checkout?token=secret');
+
+      tracker.track('checkout');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      history.replaceState(null, '', '/');
+
+      expect(getLastEvent().page_url).not.toContain('token');
+    });
+
+    it('should drop events when middleware returns null', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      tracker.addMiddleware(event => (event.eventName === 'bot_event' ? null : event));
+
+      tracker.track('bot_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should support async middleware and keep event order', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      tracker.addMiddleware(async event => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        event.properties = { ...event.properties, feature_flag: 'on' };
+      });
+
+      tracker.track('first');
+      tracker.track('second');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual(['first', 'second']);
+      expect(getReportedProperties(events[0]).feature_flag).toBe('on');
+    });
+
+    it('should only run middleware for registered event types', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      const middleware = jest.fn();
+      const unregister = tracker.addMiddleware(middleware, { eventTypes: [EventType.USER_ACTION] });
+
+      tracker.track('custom_event');
+      tracker.trackUserAction('action_event');
+      unregister();
+      tracker.trackUserAction('after_unregister');
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(middleware.mock.calls[0][0].eventName).toBe('action_event');
+    });
+  });
+
+  describe('Timed Events', () => {
+    it('should attach the elapsed duration when the event is tracked', async () => {
+      let now = Date.now();
+      const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      tracker = new ArgosTracker(mockConfig);
+
+      tracker.timeEvent('checkout');
+      tracker.timeEvent('video_load', 'intro');
+      now += 1200;
+      history.pushState(null, '', '/checkout/payment');
+      tracker.track('checkout', { step: 'paid' });
+      tracker.track('video_load', {}, { timerKey: 'intro' });
+      tracker.track('checkout');
+      dateNow.mockRestore();
+      history.replaceState(null, '', '/');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      expect(events.map(event => [event.event_name, event.duration])).toEqual([
+        ['checkout', 1200],
+        ['video_load', 1200],
+        ['checkout', undefined]
+      ]);
+    });
+  });
+
+  describe('Funnels', () => {
+    it('should abandon unfinished funnels when the session ends', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      const funnel = tracker.defineFunnel({ name: 'onboarding', steps: ['signup', 'profile', 'invite'] });
+
+      funnel.step('signup');
+      const sessionId = tracker.getSessionId();
+      tracker.renewSession();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const abandon = getReportedEvents().find(event => event.event_name === 'funnel_abandon');
+      expect(abandon?.session_id).toBe(sessionId);
+      expect(getReportedProperties(abandon)).toMatchObject({
+        funnelName: 'onboarding',
+        stepName: 'signup',
+        reason: 'session_end'
+      });
+      expect(funnel.getState()).toBeNull();
+    });
+
+    it('should abandon funnels on page unload when configured', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      const checkout = tracker.defineFunnel({ name: 'checkout', steps: ['cart', 'payment'], abandonOnUnload: true });
+      const onboarding = tracker.defineFunnel({ name: 'onboarding', steps: ['signup', 'profile'] });
+
+      checkout.step('cart');
+      onboarding.step('signup');
+      window.dispatchEvent(new Event('pagehide'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const abandoned = getReportedEvents().filter(event => event.event_name === 'funnel_abandon');
+      expect(abandoned.map(event => getReportedProperties(event).funnelName)).toEqual(['checkout']);
+      expect(onboarding.getState()).not.toBeNull();
+    });
+  });
+
+  describe('Schema Validation', () => {
+    const schema = {
+      events: {
+        checkout: {
+          properties: {
+            orderId: { type: 'string' as const, required: true },
+            currency: { type: 'string' as const, enum: ['CNY', 'USD'] }
+          }
+        }
+      }
+    };
+
+    it('should type-check event names and properties', () => {
+      interface ShopEvents {
+        checkout: { orderId: string; currency?: 'CNY' | 'USD' };
+        search: { keyword?: string };
+      }
+      const typed = new ArgosTracker<ShopEvents>(mockConfig);
+
+      typed.track('checkout', { orderId: 'A1' });
+      typed.track('search');
+      // @ts-expect-error 未声明的事件
+      typed.track('chekout', { orderId: 'A1' });
+      // @ts-expect-error 缺少必填属性
+      typed.track('checkout');
+      // @ts-expect-error 属性值不在枚举范围内
+      typed.track('checkout', { orderId: 'A1', currency: 'EUR' });
+      typed.destroy();
+    });
+
+    it('should warn and report a diagnostic event in debug mode', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, schema });
+
+      tracker.track('checkout', { currency: 'EUR' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(console.warn).toHaveBeenCalledWith(
+        '[ArgosTracker] Event "checkout" does not match schema:',
+        expect.arrayContaining([expect.objectContaining({ property: 'orderId', rule: 'required' })])
+      );
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual(['schema_violation', 'checkout']);
+      expect(getReportedProperties(events[0])).toMatchObject({
+        eventName: 'checkout',
+        dropped: false,
+        violations: [{ property: 'orderId', rule: 'required' }, { property: 'currency', rule: 'enum' }]
+      });
+    });
+
+    it('should keep invalid events silently when debug is off', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, debug: false, schema });
+
+      tracker.track('checkout', { currency: 'EUR' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(console.warn).not.toHaveBeenCalled();
+      expect(getReportedEvents().map(event => event.event_name)).toEqual(['schema_violation', 'checkout']);
+    });
+
+    it('should drop invalid events in strict mode', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, schema: { ...schema, mode: 'strict' } });
+
+      tracker.track('checkout', { orderId: 42 });
+      tracker.track('checkout', { orderId: 'A1' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual(['schema_violation', 'checkout']);
+      expect(getReportedProperties(events[0]).dropped).toBe(true);
+      expect(getReportedProperties(events[1])).toEqual({ orderId: 'A1' });
+    });
+  });
+
   describe('User Management', () => {
     beforeEach(() => {
       tracker = new ArgosTracker(mockConfig);
@@ -162,6 +368,36 @@ describe('ArgosTracker', () => {
       expect(global.fetch).toHaveBeenCalled();
     });
 
+    it('should link anonymous id to user on identify', async () => {
+      const anonymousId = tracker.getAnonymousId();
+
+      tracker.identify('logged-in-user');
+      tracker.identify('logged-in-user');
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const event = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).events[0];
+      expect(event.event_name).toBe('identify');
+      expect(event.user_id).toBe('logged-in-user');
+      expect(event.anonymous_id).toBe(anonymousId);
+      expect(getReportedProperties(event)).toEqual({
+        anonymousId,
+        userId: 'logged-in-user',
+        previousUserId: 'test-user'
+      });
+    });
+
+    it('should rotate anonymous id on clearUser when requested', () => {
+      const anonymousId = tracker.getAnonymousId();
+
+      tracker.clearUser();
+      expect(tracker.getAnonymousId()).toBe(anonymousId);
+
+      tracker.clearUser({ resetAnonymousId: true });
+      expect(tracker.getAnonymousId()).not.toBe(anonymousId);
+    });
+
     it('should clear user information', async () => {
       tracker.clearUser();
       
@@ -173,6 +409,257 @@ describe('ArgosTracker', () => {
     });
   });
 
+  describe('Consent', () => {
+    it('should buffer events until consent is granted', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, consent: { required: true } });
+
+      tracker.track('before_consent');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(tracker.hasConsent()).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      tracker.optIn();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(tracker.hasConsent()).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.reportUrl,
+        expect.objectContaining({ body: expect.stringContaining('before_consent') })
+      );
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'argos_consent',
+        JSON.stringify({ analytics: true, error: true, performance: true })
+      );
+    });
+
+    it('should discard events without consent in discard mode', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, consent: { required: true, pendingMode: 'discard' } });
+
+      tracker.track('discarded');
+      tracker.optIn();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should grant consent per category', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, consent: { required: true, pendingMode: 'discard' } });
+
+      tracker.optIn(['error']);
+
+      expect(tracker.hasConsent('error')).toBe(true);
+      expect(tracker.hasConsent('analytics')).toBe(false);
+      expect(tracker.getConsentState()).toEqual({ error: true });
+    });
+
+    it('should purge pending events and identifiers on opt out', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, reportMethod: ReportMethod.BATCH });
+
+      tracker.track('queued');
+      tracker.optOut();
+      tracker.track('after_opt_out');
+      await tracker.flush();
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(tracker.hasConsent()).toBe(false);
+      expect(localStorage.removeItem).toHaveBeenCalledWith('argos_anonymous_id');
+      expect(localStorage.removeItem).toHaveBeenCalledWith('argos_pending_events');
+    });
+
+    it('should drop batches waiting to retry on opt out', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, retry: { baseDelay: 5000, maxAttempts: 3 } });
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      tracker.track('retrying_event');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      tracker.optOut();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(localStorage.setItem).not.toHaveBeenCalledWith('argos_pending_events', expect.stringContaining('retrying_event'));
+    });
+
+    it('should not restore pending events of denied categories', async () => {
+      const record = {
+        id: 'r1',
+        event: { eventId: 'denied', eventType: EventType.CUSTOM, eventName: 'denied' },
+        priority: 4,
+        size: 100,
+        createdAt: Date.now()
+      };
+      (localStorage.getItem as jest.Mock).mockImplementation(key => (
+        key === 'argos_pending_events' ? JSON.stringify([record]) : null
+      ));
+
+      tracker = new ArgosTracker(mockConfig);
+      tracker.optOut(['analytics']);
+      window.dispatchEvent(new Event('online'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      (localStorage.getItem as jest.Mock).mockReset();
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(localStorage.removeItem).toHaveBeenCalledWith('argos_pending_events');
+    });
+
+    it('should start a new session after opting out and back in', () => {
+      tracker = new ArgosTracker(mockConfig);
+
+      const sessionId = tracker.getSessionId();
+      tracker.optOut();
+      tracker.optIn();
+      tracker.track('after_opt_in');
+
+      expect(tracker.getSessionId()).not.toBe(sessionId);
+    });
+
+    it('should keep recording navigations after toggling consent categories', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackPageView: true, autoTrackError: true });
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      tracker.optOut(['error']);
+      tracker.optIn(['error']);
+      tracker.optOut(['analytics']);
+      history.pushState(null, '', '/after-consent');
+      window.dispatchEvent(new ErrorEvent('error', { message: 'after consent' }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      history.replaceState(null, '', '/');
+
+      const errorEvent = getReportedEvents().find(event => event.event_name === 'javascript_error');
+      const breadcrumbs = getReportedProperties(errorEvent).breadcrumbs as { type: string; message: string }[];
+      expect(breadcrumbs.some(crumb => crumb.type === 'navigation' && crumb.message.includes('/after-consent'))).toBe(true);
+
+      tracker.destroy();
+      expect(history.pushState).toBe(History.prototype.pushState);
+      expect(history.replaceState).toBe(History.prototype.replaceState);
+    });
+
+    it('should honor Do Not Track when configured', async () => {
+      Object.defineProperty(navigator, 'doNotTrack', { value: '1', configurable: true });
+      tracker = new ArgosTracker({ ...mockConfig, consent: { respectDoNotTrack: true } });
+
+      tracker.track('dnt_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const hasConsent = tracker.hasConsent();
+      delete (navigator as any).doNotTrack;
+
+      expect(hasConsent).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sampling', () => {
+    it('should apply name, error, type and global rates in order', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        sampling: {
+          rate: 0,
+          errorRate: 1,
+          eventTypeRates: { [EventType.USER_ACTION]: 1 },
+          eventNameRates: { important: 1 }
+        }
+      });
+
+      tracker.track('dropped');
+      tracker.track('important');
+      tracker.trackUserAction('action');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual(['important', 'action']);
+      expect(events.every(event => event.sample_rate === 1)).toBe(true);
+    });
+
+    it('should keep all events of a sampled user', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, sampling: { rate: 0.5, key: 'user' } });
+
+      for (let i = 0; i < 20; i++) {
+        tracker.track(`event_${i}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const reported = getReportedEvents();
+      expect([0, 20]).toContain(reported.length);
+      reported.forEach(event => expect(event.sample_rate).toBe(0.5));
+    });
+
+    it('should keep the sampling decision when the user identifies', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, userId: undefined, sampling: { rate: 0.5, key: 'user' } });
+
+      tracker.track('step_0');
+      for (let i = 1; i <= 10; i++) {
+        tracker.identify(`user-${i}`);
+        tracker.track(`step_${i}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const steps = getReportedEvents().filter(event => event.event_name.indexOf('step_') === 0);
+      expect([0, 11]).toContain(steps.length);
+    });
+
+    it('should not count sampled-out events as session activity', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        autoTrackSession: true,
+        sampling: { eventNameRates: { noise: 0 } }
+      });
+
+      tracker.track('kept');
+      tracker.track('noise');
+      tracker.track('noise');
+      tracker.renewSession();
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const sessionEnd = getReportedEvents().find(event => event.event_name === 'session_end');
+      expect(getReportedProperties(sessionEnd).eventCount).toBe(1);
+    });
+  });
+
+  describe('Super Properties', () => {
+    beforeEach(() => {
+      tracker = new ArgosTracker(mockConfig);
+    });
+
+    it('should merge registered properties into subsequent events', async () => {
+      tracker.register({ app_version: '2.0.0', tenant: 'acme' });
+      tracker.track('with_super', { tenant: 'override' });
+      tracker.unregister('tenant');
+      tracker.track('after_unregister');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const [first, second] = getReportedEvents().map(getReportedProperties);
+      expect(first).toEqual({ app_version: '2.0.0', tenant: 'override' });
+      expect(second).toEqual({ app_version: '2.0.0' });
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'argos_super_properties',
+        JSON.stringify({ app_version: '2.0.0' })
+      );
+    });
+
+    it('should emit profile update events without super properties', async () => {
+      tracker.register({ app_version: '2.0.0' });
+      tracker.setUserProperties({ plan: 'pro' });
+      tracker.setOnce({ first_seen: '2024-01-01' });
+      tracker.increment('login_count');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual([
+        'profile_set',
+        'profile_set_once',
+        'profile_increment'
+      ]);
+      expect(getReportedProperties(events[0])).toEqual({ plan: 'pro' });
+      expect(getReportedProperties(events[2])).toEqual({ login_count: 1 });
+    });
+  });
+
   describe('Batch Reporting', () => {
     beforeEach(() => {
       mockConfig.reportMethod = ReportMethod.BATCH;
@@ -211,6 +698,86 @@ describe('ArgosTracker', () => {
     });
   });
 
+  describe('Page View Tracking', () => {
+    beforeEach(() => {
+      mockConfig.autoTrackPageView = true;
+      tracker = new ArgosTracker(mockConfig);
+    });
+
+    afterEach(() => {
+      history.replaceState(null, '', '/');
+    });
+
+    it('should report page duration on route change', async () => {
+      const previousUrl = window.location.href;
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      history.pushState(null, '', '/next-page');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const durationEvent = getReportedEvents().find(event => event.event_name === 'page_duration');
+
+      expect(durationEvent).toBeDefined();
+      expect(durationEvent?.page_url).toBe(previousUrl);
+      expect(durationEvent?.duration).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should track hash route changes once', async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      window.location.hash = '#/detail';
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const pageViews = getReportedEvents()
+        .filter(event => event.event_name === 'page_view' && event.page_url?.endsWith('#/detail'));
+
+      expect(pageViews).toHaveLength(1);
+    });
+
+    it('should ignore hash changes when trackHashChange is disabled', async () => {
+      tracker.destroy();
+      jest.clearAllMocks();
+      tracker = new ArgosTracker({ ...mockConfig, trackHashChange: false });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      window.location.hash = '#/ignored';
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const pageViews = getReportedEvents()
+        .filter(event => event.event_name === 'page_view' && event.page_url?.endsWith('#/ignored'));
+
+      expect(pageViews).toHaveLength(0);
+    });
+
+    it('should exclude time spent in background', async () => {
+      const visibility = jest.spyOn(document, 'visibilityState', 'get');
+      const startTime = Date.now();
+      let now = startTime;
+      const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      now = startTime + 50;
+      visibility.mockReturnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      now = startTime + 10050;
+      visibility.mockReturnValue('visible');
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      now = startTime + 10080;
+      history.pushState(null, '', '/next-page');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      visibility.mockRestore();
+      dateNow.mockRestore();
+
+      const durations = getReportedEvents()
+        .filter(event => event.event_name === 'page_duration')
+        .map(event => event.duration);
+
+      expect(durations).toHaveLength(2);
+      expect(durations[0]).toBeGreaterThanOrEqual(50);
+      expect(durations[1]).toBe(30);
+    });
+  });
+
   describe('Configuration Updates', () => {
     beforeEach(() => {
       tracker = new ArgosTracker(mockConfig);
@@ -241,6 +808,400 @@ describe('ArgosTracker', () => {
       expect(newSessionId).not.toBe(originalSessionId);
       expect(tracker.getSessionId()).toBe(newSessionId);
     });
+
+    it('should start a new session after inactivity timeout', async () => {
+      tracker.destroy();
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackSession: true, session: { timeout: 1000 } });
+
+      const startTime = Date.now();
+      let now = startTime;
+      const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      tracker.track('first');
+      now = startTime + 500;
+      tracker.track('second');
+      now = startTime + 2000;
+      tracker.track('third');
+      dateNow.mockRestore();
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      expect(events.map(event => event.event_name)).toEqual([
+        'session_start',
+        'first',
+        'second',
+        'session_end',
+        'session_start',
+        'third'
+      ]);
+      expect(events[1].session_id).toBe(events[2].session_id);
+      expect(events[5].session_id).not.toBe(events[2].session_id);
+      expect(events[3].session_id).toBe(events[2].session_id);
+      expect(events[3].duration).toBe(500);
+      expect(getReportedProperties(events[3])).toEqual({ duration: 500, eventCount: 2 });
+    });
+
+    it('should roll over when utm_source changes', () => {
+      tracker.destroy();
+      tracker = new ArgosTracker({ ...mockConfig, session: { rolloverOnUtmChange: true } });
+
+      const sessionId = tracker.getSessionId();
+      history.replaceState(null, '', '/?utm_source=newsletter');
+      tracker.track('campaign_landing');
+      const campaignSessionId = tracker.getSessionId();
+      history.replaceState(null, '', '/');
+
+      expect(campaignSessionId).not.toBe(sessionId);
+    });
+  });
+
+  describe('Transports', () => {
+    it('should fall back to keepalive fetch when sendBeacon returns false', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, reportMethod: ReportMethod.BEACON });
+      (navigator.sendBeacon as jest.Mock).mockReturnValue(false);
+
+      tracker.track('beacon_event');
+      await tracker.flush();
+
+      expect(navigator.sendBeacon).toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.reportUrl,
+        expect.objectContaining({ keepalive: true })
+      );
+    });
+
+    it('should skip sendBeacon for payloads over 64KB', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, reportMethod: ReportMethod.BEACON, transports: ['beacon', 'xhr'] });
+
+      tracker.track('large_event', { payload: 'x'.repeat(70 * 1024) });
+      await tracker.flush();
+
+      expect(navigator.sendBeacon).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back once the server has responded', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, transports: ['fetch', 'beacon'] });
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+
+      tracker.track('bad_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(navigator.sendBeacon).not.toHaveBeenCalled();
+    });
+
+    it('should send the serializer content type by default', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, payloadFormat: 'ndjson' });
+
+      tracker.track('ndjson_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.reportUrl,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Content-Type': 'application/x-ndjson' })
+        })
+      );
+    });
+
+    it('should use registered custom transports first', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      const transport = {
+        name: 'native-bridge',
+        isSupported: () => true,
+        send: jest.fn().mockResolvedValue({ success: true, retryable: false })
+      };
+      tracker.registerTransport(transport);
+
+      tracker.track('bridged_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({
+        url: mockConfig.reportUrl,
+        body: expect.stringContaining('bridged_event')
+      }));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Click Tracking', () => {
+    const getClickEvents = () => getReportedEvents().filter(event => event.event_name === 'click');
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should report the interactive ancestor with selector and xpath', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackClick: true });
+      document.body.innerHTML = '<button data-testid="buy" class="css-1a2b3c btn">Buy <svg id="icon"></svg></button>';
+
+      (document.getElementById('icon') as Element).dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const properties = getReportedProperties(getClickEvents()[0]);
+      expect(properties).toMatchObject({
+        tagName: 'button',
+        className: 'css-1a2b3c btn',
+        textContent: 'Buy',
+        selector: '[data-testid="buy"]',
+        xpath: '/html/body/button'
+      });
+    });
+
+    it('should ignore elements matching ignore selectors', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackClick: true, click: { ignoreSelectors: ['.secret'] } });
+      document.body.innerHTML = `
+        <div data-argos-ignore><button id="first">A</button></div>
+        <div class="secret"><button id="second">B</button></div>
+      `;
+
+      (document.getElementById('first') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 150));
+      (document.getElementById('second') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getClickEvents()).toHaveLength(0);
+    });
+
+    it('should not collect text from masked elements', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackClick: true, click: { maskSelectors: ['.email'] } });
+      document.body.innerHTML = '<button id="account">Account <span class="email">a@b.com</span></button>';
+
+      (document.getElementById('account') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getReportedProperties(getClickEvents()[0]).textContent).toBe('Account');
+    });
+
+    it('should detect rage clicks regardless of the click throttle', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackClick: true, autoTrackFrustration: true });
+      document.body.innerHTML = '<button id="pay"><span id="label">Pay</span></button>';
+      const label = document.getElementById('label') as HTMLElement;
+
+      for (let i = 0; i < 3; i++) {
+        label.dispatchEvent(new MouseEvent('click', { bubbles: true, clientX: 10, clientY: 10 }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const events = getReportedEvents();
+      const rageClick = events.find(event => event.event_name === 'rage_click');
+      expect(getReportedProperties(rageClick)).toMatchObject({ clickCount: 3, selector: '#pay' });
+      expect(getClickEvents()).toHaveLength(1);
+    });
+  });
+
+  describe('API Tracking', () => {
+    it('should not report its own failed requests and restore fetch on destroy', async () => {
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackApi: true });
+
+      expect(global.fetch).not.toBe(fetchMock);
+
+      tracker.track('checkout');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).events[0].event_name).toBe('checkout');
+
+      tracker.destroy();
+      expect(global.fetch).toBe(fetchMock);
+    });
+
+    it('should report failed page requests as api errors', async () => {
+      const fetchMock = global.fetch as jest.Mock;
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackApi: true });
+
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 502 });
+      await fetch('https://shop.example.com/api/cart?id=1');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const event = JSON.parse(fetchMock.mock.calls[1][1].body).events[0];
+      expect(event.event_name).toBe('api_error');
+      expect(getReportedProperties(event)).toMatchObject({
+        errorType: 'api',
+        method: 'GET',
+        url: 'https://shop.example.com/api/cart',
+        status: 502
+      });
+    });
+  });
+
+  describe('Declarative Tracking', () => {
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should track clicks on elements with data-argos-click', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, autoTrackDeclarative: true });
+      document.body.innerHTML = `
+        <button data-argos-click="add_to_cart" data-argos-prop-sku="A-100" data-argos-prop-price="99">
+          <span id="label">Add</span>
+        </button>
+      `;
+
+      (document.getElementById('label') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const event = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).events[0];
+      expect(event.event_name).toBe('add_to_cart');
+      expect(getReportedProperties(event)).toMatchObject({ sku: 'A-100', price: '99' });
+    });
+
+    it('should ignore declarative clicks by default', async () => {
+      tracker = new ArgosTracker(mockConfig);
+      document.body.innerHTML = '<button id="buy" data-argos-click="buy_now">Buy</button>';
+
+      (document.getElementById('buy') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Event IDs', () => {
+    it('should attach a unique event id to every event', async () => {
+      tracker = new ArgosTracker(mockConfig);
+
+      tracker.track('first');
+      tracker.track('second');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const [first, second] = getReportedEvents();
+      expect(first.event_id).toEqual(expect.any(String));
+      expect(second.event_id).toEqual(expect.any(String));
+      expect(first.event_id).not.toBe(second.event_id);
+    });
+
+    it('should acknowledge events delivered by beacon on unload', async () => {
+      tracker = new ArgosTracker({ ...mockConfig, reportMethod: ReportMethod.BEACON });
+      (navigator.sendBeacon as jest.Mock).mockReturnValue(true);
+
+      tracker.track('unload_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      window.dispatchEvent(new Event('beforeunload'));
+      window.dispatchEvent(new Event('pagehide'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const body = (navigator.sendBeacon as jest.Mock).mock.calls[0][1];
+      const eventId = JSON.parse(body).events[0].event_id;
+      expect(navigator.sendBeacon).toHaveBeenCalledTimes(1);
+      expect(localStorage.setItem).toHaveBeenCalledWith('argos_acked_events', JSON.stringify([eventId]));
+    });
+
+    it('should back up unload events synchronously', () => {
+      tracker = new ArgosTracker({ ...mockConfig, reportMethod: ReportMethod.BEACON });
+
+      tracker.track('unload_event');
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(localStorage.setItem).toHaveBeenCalledWith('argos_unload_events', expect.stringContaining('unload_event'));
+    });
+
+    it('should skip acknowledged events when restoring pending events', async () => {
+      const createRecord = (id: string, eventId: string) => ({
+        id,
+        event: { eventId, eventType: EventType.CUSTOM, eventName: eventId },
+        priority: 4,
+        size: 100,
+        createdAt: Date.now()
+      });
+      const store: Record<string, string> = {
+        argos_pending_events: JSON.stringify([createRecord('r1', 'delivered'), createRecord('r2', 'pending')]),
+        argos_acked_events: JSON.stringify(['delivered'])
+      };
+      (localStorage.getItem as jest.Mock).mockImplementation(key => store[key] ?? null);
+
+      tracker = new ArgosTracker(mockConfig);
+      window.dispatchEvent(new Event('online'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      (localStorage.getItem as jest.Mock).mockReset();
+
+      expect(getReportedEvents().map(event => event.event_id)).toEqual(['pending']);
+    });
+  });
+
+  describe('Destinations', () => {
+    const getUrls = () => (global.fetch as jest.Mock).mock.calls.map(call => call[0]);
+
+    it('should route events to matching destinations', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        destinations: [
+          { name: 'monitoring', reportUrl: 'https://monitor.example.com/errors', eventTypes: [EventType.ERROR] },
+          { name: 'rum', reportUrl: 'https://rum.example.com/vitals', eventNames: ['lcp'] }
+        ]
+      });
+
+      tracker.track('signup');
+      tracker.track('lcp');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getUrls()).toEqual(['https://api.example.com/track', 'https://rum.example.com/vitals']);
+    });
+
+    it('should also send non-exclusive matches to the default destination', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        destinations: [
+          { name: 'audit', reportUrl: 'https://audit.example.com/track', filter: event => event.eventName === 'purchase', exclusive: false }
+        ]
+      });
+
+      tracker.track('purchase');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getUrls().sort()).toEqual(['https://api.example.com/track', 'https://audit.example.com/track']);
+    });
+
+    it('should apply per-destination headers and batch settings', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        destinations: [
+          {
+            name: 'analytics',
+            reportUrl: 'https://analytics.example.com/track',
+            headers: { 'X-Api-Key': 'secret' },
+            reportMethod: ReportMethod.BATCH,
+            batchSize: 2
+          }
+        ]
+      });
+
+      tracker.track('first');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      tracker.track('second');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://analytics.example.com/track',
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-Api-Key': 'secret' }) })
+      );
+    });
+
+    it('should keep failures isolated per destination', async () => {
+      tracker = new ArgosTracker({
+        ...mockConfig,
+        retry: { maxAttempts: 1 },
+        destinations: [{ name: 'rum', reportUrl: 'https://rum.example.com/vitals', eventNames: ['lcp'] }]
+      });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => (
+        url.includes('rum') ? { ok: false, status: 503 } : { ok: true, status: 200 }
+      ));
+
+      tracker.track('lcp');
+      tracker.track('signup');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getUrls()).toEqual(['https://rum.example.com/vitals', 'https://api.example.com/track']);
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'argos_pending_events',
+        expect.stringContaining('"destination":"rum"')
+      );
+    });
   });
 
   describe('Error Handling', () => {
@@ -260,6 +1221,84 @@ describe('ArgosTracker', () => {
       expect(global.fetch).toHaveBeenCalled();
     });
 
+    it('should retry retryable failures with backoff', async () => {
+      tracker.destroy();
+      tracker = new ArgosTracker({ ...mockConfig, retry: { baseDelay: 20, maxAttempts: 3 } });
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { get: (name: string) => (name === 'Retry-After' ? '0' : null) }
+        });
+
+      tracker.track('test_event');
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should send batches waiting to retry when the page unloads', async () => {
+      tracker.destroy();
+      tracker = new ArgosTracker({ ...mockConfig, retry: { baseDelay: 5000, maxAttempts: 3 } });
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      (navigator.sendBeacon as jest.Mock).mockReturnValue(true);
+
+      tracker.track('retrying_event');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      window.dispatchEvent(new Event('pagehide'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const body = (navigator.sendBeacon as jest.Mock).mock.calls[0][1];
+      expect(JSON.parse(body).events.map((event: any) => event.event_name)).toEqual(['retrying_event']);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry or cache permanent failures', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request'
+      });
+
+      tracker.track('test_event');
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(localStorage.setItem).not.toHaveBeenCalledWith('argos_pending_events', expect.anything());
+    });
+
+    it('should pause while offline and report when back online', async () => {
+      const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      tracker.track('offline_event');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      const setItemCall = (localStorage.setItem as jest.Mock).mock.calls
+        .find(call => call[0] === 'argos_pending_events');
+      expect(setItemCall).toBeDefined();
+      (localStorage.getItem as jest.Mock).mockImplementation(key => (
+        key === 'argos_pending_events' ? setItemCall[1] : null
+      ));
+
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      onLine.mockRestore();
+      (localStorage.getItem as jest.Mock).mockReset();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.reportUrl,
+        expect.objectContaining({ body: expect.stringContaining('offline_event') })
+      );
+    });
+
     it('should handle HTTP errors gracefully', async () => {
       // Mock fetch to return error response
       (global.fetch as jest.Mock).mockResolvedValue({
@@ -0,0 +1,229 @@
+import { DEFAULT_ERROR_CONFIG } from './constants';
+import { Breadcrumb, BreadcrumbType, SelectorConfig } from './types';
+import { onHistoryChange } from './history';
+import { stripUrl } from './network';
+import { getElementSelector } from './selector';
+import { getCurrentTimestamp } from './utils';
+
+/**
+ * 记录的控制台方法
+ */
+const CONSOLE_LEVELS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+/**
+ * 将控制台参数格式化为文本，不使用会输出警告的 safeStringify，避免递归记录
+ */
+function formatConsoleArg(arg: any): string {
+  if (typeof arg === 'string') {
+    return arg;
+  }
+
+  if (arg instanceof Error) {
+    return `${arg.name}: ${arg.message}`;
+  }
+
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch (error) {
+    return String(arg);
+  }
+}
+
+/**
+ * 面包屑记录器
+ * 以环形缓冲区保存最近的点击、路由跳转、控制台输出与网络请求，错误发生时随错误事件上报
+ */
+export class BreadcrumbRecorder {
+  private types: string[];
+  private maxBreadcrumbs: number;
+  private selectorConfig: SelectorConfig;
+  private ignoreUrls: string[];
+  private observeRequests: boolean;
+  private breadcrumbs: Breadcrumb[] = [];
+  private cleanups: (() => void)[] = [];
+  private lastUrl = '';
+
+  constructor(
+    options: {
+      types?: BreadcrumbType[];
+      maxBreadcrumbs?: number;
+      selector?: SelectorConfig;
+      /** 不记录的请求地址前缀，如上报地址 */
+      ignoreUrls?: string[];
+      /** 是否通过 Resource Timing 记录请求，已替换 fetch/XHR 时由调用方通过 add 记录 */
+      observeRequests?: boolean;
+    } = {}
+  ) {
+    this.types = options.types || DEFAULT_ERROR_CONFIG.breadcrumbs;
+    this.maxBreadcrumbs = options.maxBreadcrumbs ?? DEFAULT_ERROR_CONFIG.maxBreadcrumbs;
+    this.selectorConfig = options.selector || {};
+    this.ignoreUrls = (options.ignoreUrls || []).filter(Boolean);
+    this.observeRequests = options.observeRequests !== false;
+  }
+
+  /**
+   * 开始记录
+   */
+  start(): void {
+    if (this.cleanups.length > 0 || this.maxBreadcrumbs <= 0) {
+      return;
+    }
+
+    this.lastUrl = stripUrl(window.location.href);
+
+    if (this.types.includes('click')) {
+      this.recordClicks();
+    }
+
+    if (this.types.includes('navigation')) {
+      this.recordNavigations();
+    }
+
+    if (this.types.includes('console')) {
+      this.recordConsole();
+    }
+
+    if (this.types.includes('fetch') && this.observeRequests) {
+      this.recordRequests();
+    }
+  }
+
+  /**
+   * 停止记录，按注册的相反顺序还原被替换的方法
+   */
+  stop(): void {
+    this.cleanups.reverse().forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.breadcrumbs = [];
+  }
+
+  /**
+   * 添加一条面包屑，超过上限时丢弃最早的记录，未开启的类型直接忽略
+   */
+  add(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void {
+    if (this.maxBreadcrumbs <= 0 || !this.types.includes(breadcrumb.type)) {
+      return;
+    }
+
+    this.breadcrumbs.push({ ...breadcrumb, timestamp: getCurrentTimestamp() });
+    if (this.breadcrumbs.length > this.maxBreadcrumbs) {
+      this.breadcrumbs.shift();
+    }
+  }
+
+  /**
+   * 获取当前记录的面包屑
+   */
+  getAll(): Breadcrumb[] {
+    return [...this.breadcrumbs];
+  }
+
+  /**
+   * 记录点击
+   */
+  private recordClicks(): void {
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target || target.nodeType !== Node.ELEMENT_NODE) return;
+
+      let message = target.localName;
+      try {
+        message = getElementSelector(target, this.selectorConfig);
+      } catch (error) {
+        // 忽略选择器生成错误
+      }
+
+      this.add({ type: 'click', message });
+    };
+
+    document.addEventListener('click', handleClick, true);
+    this.cleanups.push(() => document.removeEventListener('click', handleClick, true));
+  }
+
+  /**
+   * 记录路由跳转，地址去掉查询参数与 hash，避免记录其中的令牌等敏感信息
+   */
+  private recordNavigations(): void {
+    const handleChange = () => {
+      const to = stripUrl(window.location.href);
+      if (to === this.lastUrl) {
+        return;
+      }
+
+      this.add({ type: 'navigation', message: to, data: { from: this.lastUrl, to } });
+      this.lastUrl = to;
+    };
+
+    this.cleanups.push(onHistoryChange(handleChange));
+  }
+
+  /**
+   * 记录控制台输出，追踪器自身的调试日志除外
+   */
+  private recordConsole(): void {
+    CONSOLE_LEVELS.forEach(level => {
+      const original = console[level];
+      if (typeof original !== 'function') {
+        return;
+      }
+
+      console[level] = (...args: any[]) => {
+        const message = args
+          .map(formatConsoleArg)
+          .join(' ')
+          .substring(0, DEFAULT_ERROR_CONFIG.maxConsoleLength);
+
+        if (message.indexOf('[ArgosTracker') !== 0) {
+          this.add({ type: 'console', message, data: { level } });
+        }
+
+        original.apply(console, args);
+      };
+
+      this.cleanups.push(() => {
+        console[level] = original;
+      });
+    });
+  }
+
+  /**
+   * 通过 Resource Timing 记录 fetch/XHR 请求，不替换原生方法
+   */
+  private recordRequests(): void {
+    if (typeof PerformanceObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new PerformanceObserver(list => {
+      (list.getEntries() as PerformanceResourceTiming[]).forEach(entry => {
+        if (entry.initiatorType !== 'fetch' && entry.initiatorType !== 'xmlhttprequest') {
+          return;
+        }
+
+        if (this.ignoreUrls.some(url => entry.name.indexOf(url) === 0)) {
+          return;
+        }
+
+        const data: Record<string, any> = {
+          initiatorType: entry.initiatorType,
+          duration: Math.round(entry.duration)
+        };
+
+        // responseStatus 仅部分浏览器支持
+        const status = (entry as PerformanceResourceTiming & { responseStatus?: number }).responseStatus;
+        if (status) {
+          data.status = status;
+        }
+
+        this.add({ type: 'fetch', message: stripUrl(entry.name), data });
+      });
+    });
+
+    try {
+      observer.observe({ type: 'resource' });
+      this.cleanups.push(() => observer.disconnect());
+    } catch (error) {
+      // 不支持 resource 条目时跳过
+    }
+  }
+}
@@ -1,69 +1,171 @@
-import { EventType } from './constants';
-import { ClickProperties, ErrorProperties, PageViewProperties, TrackEvent } from './types';
-import { getCurrentTimestamp, getElementSelector, throttle } from './utils';
+import {
+  BUILTIN_PLUGINS,
+  DATA_ATTRIBUTES,
+  DEFAULT_CLICK_CONFIG,
+  EventType,
+  INTERACTIVE_SELECTOR,
+  WEB_VITALS_THRESHOLDS
+} from './constants';
+import {
+  ApiConfig,
+  ArgosPlugin,
+  ClickConfig,
+  ClickProperties,
+  ErrorConfig,
+  ExposureConfig,
+  FrustrationConfig,
+  PageViewProperties,
+  PerformanceMetricName,
+  PerformanceProperties,
+  PluginTracker,
+  SelectorConfig,
+  TrackEvent
+} from './types';
+import { ErrorMonitor } from './errors';
+import { ExposureTracker } from './exposure';
+import { FrustrationDetector } from './frustration';
+import { onHistoryChange } from './history';
+import { getElementSelector, getElementXPath } from './selector';
+import { getCurrentTimestamp, getDataAttributeProperties, getNavigationTiming, throttle } from './utils';
 
 /**
- * 自动埋点收集器
+ * 布局偏移条目(lib.dom 暂未内置)
  */
-export class AutoCollector {
-  private isCollecting = false;
-  private pageStartTime = 0;
-  private eventCallback: (event: TrackEvent) => void;
-  private unloadListeners: (() => void)[] = [];
-  private lastPageViewUrl = '';
-  private lastPageViewTime = 0;
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+/**
+ * 交互事件条目
+ */
+interface InteractionEntry extends PerformanceEntry {
+  interactionId?: number;
+}
 
-  constructor(eventCallback: (event: TrackEvent) => void) {
-    this.eventCallback = eventCallback;
+/**
+ * 去除 URL 中的 hash 部分
+ */
+function stripHash(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.substring(0, hashIndex);
+}
+
+/**
+ * 安全地查找匹配选择器的最近祖先，选择器无效时返回 null
+ */
+function findClosest(element: Element, selector: string): Element | null {
+  try {
+    return selector ? element.closest(selector) : null;
+  } catch (error) {
+    return null;
   }
+}
 
-  /**
-   * 开始收集
-   */
-  start(options: {
-    autoTrackPageView?: boolean;
-    autoTrackClick?: boolean;
-    autoTrackError?: boolean;
-  }): void {
-    if (this.isCollecting) {
+/**
+ * 获取元素文本，跳过需要脱敏的后代元素
+ */
+function getElementText(element: Element, maskSelector: string, maxLength: number): string | undefined {
+  let text = '';
+
+  const collect = (node: Node) => {
+    if (text.length >= maxLength) {
       return;
     }
 
-    this.isCollecting = true;
-    this.pageStartTime = getCurrentTimestamp();
-
-    if (options.autoTrackPageView) {
-      this.trackPageView();
-      this.setupPageViewTracking();
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent;
+      return;
     }
 
-    if (options.autoTrackClick) {
-      this.setupClickTracking();
+    if (node.nodeType === Node.ELEMENT_NODE && maskSelector) {
+      try {
+        if ((node as Element).matches(maskSelector)) {
+          return;
+        }
+      } catch (error) {
+        // 忽略无效的选择器
+      }
     }
 
-    if (options.autoTrackError) {
-      this.setupErrorTracking();
-    }
+    node.childNodes.forEach(collect);
+  };
+
+  collect(element);
+  return text.replace(/\s+/g, ' ').trim().substring(0, maxLength) || undefined;
+}
+
+/**
+ * 创建点击目标解析函数：应用忽略规则，并上溯到最近的可交互元素
+ */
+function createClickTargetResolver(config: ClickConfig = {}): (event: MouseEvent) => Element | null {
+  const {
+    ignoreSelectors = [],
+    walkUpToInteractive = DEFAULT_CLICK_CONFIG.walkUpToInteractive
+  } = config;
+  const ignoreSelector = [DEFAULT_CLICK_CONFIG.ignoreSelector, ...ignoreSelectors].join(',');
+
+  return (event: MouseEvent) => {
+    const clicked = event.target as Element;
+    if (!clicked || clicked.nodeType !== Node.ELEMENT_NODE) return null;
+
+    if (findClosest(clicked, ignoreSelector)) return null;
+
+    // 点击按钮内的图标或文字时，以按钮本身作为点击目标
+    return (walkUpToInteractive && findClosest(clicked, INTERACTIVE_SELECTOR)) || clicked;
+  };
+}
+
+/**
+ * 内置采集插件基类
+ * 事件通过 tracker.captureEvent 上报，teardown 时按注册的相反顺序执行清理函数，
+ * 被多次替换的方法能还原为原始方法
+ */
+abstract class CollectorPlugin implements ArgosPlugin {
+  abstract readonly name: string;
+  protected cleanups: (() => void)[] = [];
+  protected emit: (event: TrackEvent) => void = () => undefined;
+
+  setup(tracker: PluginTracker): void {
+    this.emit = event => tracker.captureEvent(event);
+    this.start(tracker);
+  }
+
+  teardown(): void {
+    this.cleanups.reverse().forEach(cleanup => cleanup());
+    this.cleanups = [];
   }
 
   /**
-   * 停止收集
+   * 开始采集
    */
-  stop(): void {
-    if (!this.isCollecting) {
-      return;
-    }
+  protected abstract start(tracker: PluginTracker): void;
+}
 
-    this.isCollecting = false;
-    this.cleanup();
+/**
+ * 页面访问采集插件：页面访问(含 SPA 路由变化)与页面停留时长
+ */
+export class PageViewPlugin extends CollectorPlugin {
+  readonly name = BUILTIN_PLUGINS.PAGE_VIEW;
+  private pageStartTime = 0;
+  private durationPageUrl = '';
+  private durationPageTitle = '';
+  private trackHashChange: boolean;
+  private lastPageViewUrl = '';
+  private lastPageViewTime = 0;
+
+  constructor(options: {
+    /** 是否把 hash 变化视为页面访问，默认 true */
+    trackHashChange?: boolean;
+  } = {}) {
+    super();
+    this.trackHashChange = options.trackHashChange !== false;
   }
 
-  /**
-   * 清理事件监听器
-   */
-  private cleanup(): void {
-    this.unloadListeners.forEach(unload => unload());
-    this.unloadListeners = [];
+  protected start(): void {
+    this.resetPageDuration();
+    this.trackPageView();
+    this.setupPageViewTracking();
   }
 
   /**
@@ -88,7 +190,7 @@ export class AutoCollector {
       referrer: document.referrer || undefined
     };
 
-    this.eventCallback({
+    this.emit({
       eventType: EventType.PAGE_VIEW,
       eventName: 'page_view',
       properties,
@@ -100,66 +202,170 @@ export class AutoCollector {
    * 设置页面访问跟踪
    */
   private setupPageViewTracking(): void {
-
-
-    // 重写 pushState 和 replaceState 方法以捕获程序化路由变化
-    const originalPushState = history.pushState;
-    const originalReplaceState = history.replaceState;
-
     const handleHistoryChange = () => {
       // 使用 setTimeout 确保 URL 已经更新
       setTimeout(() => {
+        const currentUrl = window.location.href;
+
+        // 不把 hash 变化视为页面访问时，仅 hash 不同的路由变化直接忽略
+        if (!this.trackHashChange && stripHash(currentUrl) === stripHash(this.durationPageUrl)) {
+          return;
+        }
+
+        if (currentUrl !== this.durationPageUrl) {
+          this.trackPageDuration();
+          this.resetPageDuration();
+        }
         this.trackPageView();
-        this.pageStartTime = getCurrentTimestamp();
       }, 0);
     };
 
-    history.pushState = function(...args) {
-      originalPushState.apply(history, args);
-      handleHistoryChange();
+    // 程序化路由变化、浏览器前进/后退与 hash 路由；popstate 与 hashchange 可能同时触发，由 trackPageView 的 100ms 防重处理
+    this.cleanups.push(onHistoryChange(handleHistoryChange));
+
+    // 页面进入后台时结算停留时长，回到前台后重新计时
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.trackPageDuration();
+        this.pageStartTime = 0;
+      } else if (!this.pageStartTime) {
+        this.pageStartTime = getCurrentTimestamp();
+      }
+    };
+
+    const handlePageHide = () => {
+      this.trackPageDuration();
+      this.pageStartTime = 0;
     };
 
-    history.replaceState = function(...args) {
-      originalReplaceState.apply(history, args);
-      handleHistoryChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    this.cleanups.push(() => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    });
+  }
+
+  /**
+   * 重置当前页面的停留计时
+   */
+  private resetPageDuration(): void {
+    this.pageStartTime = document.visibilityState === 'hidden' ? 0 : getCurrentTimestamp();
+    this.durationPageUrl = window.location.href;
+    this.durationPageTitle = document.title;
+  }
+
+  /**
+   * 上报当前页面的停留时长(不含页面处于后台的时间)
+   */
+  private trackPageDuration(): void {
+    const currentTime = getCurrentTimestamp();
+    const duration = this.pageStartTime ? currentTime - this.pageStartTime : 0;
+
+    if (this.pageStartTime) {
+      this.pageStartTime = currentTime;
+    }
+
+    if (duration <= 0) {
+      return;
+    }
+
+    const properties: PageViewProperties = {
+      url: this.durationPageUrl,
+      title: this.durationPageTitle,
+      duration
     };
 
-    // 恢复原始方法的清理函数
-    this.unloadListeners.push(() => {
-      history.pushState = originalPushState;
-      history.replaceState = originalReplaceState;
+    this.emit({
+      eventType: EventType.PAGE_DURATION,
+      eventName: 'page_duration',
+      properties,
+      pageUrl: this.durationPageUrl,
+      pageTitle: this.durationPageTitle,
+      duration,
+      timestamp: currentTime
     });
+  }
+}
 
+/**
+ * 点击采集插件：点击事件、声明式点击与挫败点击
+ */
+export class ClickPlugin extends CollectorPlugin {
+  readonly name = BUILTIN_PLUGINS.CLICK;
+  private options: {
+    trackClicks?: boolean;
+    trackDeclarative?: boolean;
+    trackFrustration?: boolean;
+    click?: ClickConfig;
+    frustration?: FrustrationConfig;
+    selector?: SelectorConfig;
+    ignoreUrls?: string[];
+  };
+  private selectorConfig: SelectorConfig;
+
+  constructor(options: {
+    /** 是否采集点击事件，默认 true */
+    trackClicks?: boolean;
+    /** 是否采集带 data-argos-click 属性元素的点击 */
+    trackDeclarative?: boolean;
+    /** 是否检测挫败点击 */
+    trackFrustration?: boolean;
+    click?: ClickConfig;
+    frustration?: FrustrationConfig;
+    selector?: SelectorConfig;
+    /** 追踪器自身的请求地址，检测无效点击时不算作页面响应 */
+    ignoreUrls?: string[];
+  } = {}) {
+    super();
+    this.options = options;
+    this.selectorConfig = options.selector || {};
+  }
 
+  protected start(): void {
+    if (this.options.trackClicks !== false) {
+      this.setupClickTracking(this.options.click);
+    }
 
+    if (this.options.trackDeclarative) {
+      this.setupDeclarativeClickTracking();
+    }
 
+    if (this.options.trackFrustration) {
+      this.setupFrustrationTracking(this.options.click, this.options.frustration, this.options.ignoreUrls);
+    }
   }
 
   /**
    * 设置点击事件跟踪
    */
-  private setupClickTracking(): void {
+  private setupClickTracking(config: ClickConfig = {}): void {
+    const { maskInputText = DEFAULT_CLICK_CONFIG.maskInputText, maskSelectors = [] } = config;
+    const maskSelector = [...(maskInputText ? [DEFAULT_CLICK_CONFIG.maskSelector] : []), ...maskSelectors].join(',');
+    const resolveTarget = createClickTargetResolver(config);
+
     const handleClick = throttle((event: MouseEvent) => {
-      const target = event.target as Element;
+      const target = resolveTarget(event);
       if (!target) return;
 
       const properties: ClickProperties = {
-        tagName: target.tagName.toLowerCase(),
+        tagName: target.localName,
         elementId: target.id || undefined,
-        className: target.className || undefined,
-        textContent: target.textContent?.trim().substring(0, 100) || undefined,
+        className: target.getAttribute('class') || undefined,
+        textContent: getElementText(target, maskSelector, DEFAULT_CLICK_CONFIG.maxTextLength),
         clientX: event.clientX,
         clientY: event.clientY
       };
 
       // 添加元素选择器
       try {
-        (properties as any).selector = getElementSelector(target);
+        properties.selector = getElementSelector(target, this.selectorConfig);
+        properties.xpath = getElementXPath(target);
       } catch (error) {
         // 忽略选择器生成错误
       }
 
-      this.eventCallback({
+      this.emit({
         eventType: EventType.CLICK,
         eventName: 'click',
         properties,
@@ -168,82 +374,326 @@ export class AutoCollector {
     }, 100);
 
     document.addEventListener('click', handleClick, true);
-    this.unloadListeners.push(() => {
+    this.cleanups.push(() => {
       document.removeEventListener('click', handleClick, true);
     });
   }
 
   /**
-   * 设置错误事件跟踪
+   * 设置挫败点击检测，不受点击事件节流影响
    */
-  private setupErrorTracking(): void {
-    // JavaScript 错误
-    const handleError = (event: ErrorEvent) => {
-      const properties: ErrorProperties = {
-        message: event.message,
-        stack: event.error?.stack,
-        filename: event.filename,
-        lineno: event.lineno,
-        colno: event.colno,
-        errorType: 'javascript'
-      };
+  private setupFrustrationTracking(clickConfig?: ClickConfig, config?: FrustrationConfig, ignoreUrls?: string[]): void {
+    const detector = new FrustrationDetector(this.emit, config, this.selectorConfig, ignoreUrls);
+    const resolveTarget = createClickTargetResolver(clickConfig);
+
+    const handleClick = (event: MouseEvent) => {
+      const target = resolveTarget(event);
+      if (target) {
+        detector.handleClick(target, event);
+      }
+    };
+
+    detector.start();
+    document.addEventListener('click', handleClick, true);
+    this.cleanups.push(() => {
+      document.removeEventListener('click', handleClick, true);
+      detector.stop();
+    });
+  }
+
+  /**
+   * 设置声明式点击跟踪：点击带 data-argos-click 属性的元素(或其后代)时上报对应名称的事件
+   */
+  private setupDeclarativeClickTracking(): void {
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as Element | null;
+      const element = target?.closest?.(`[${DATA_ATTRIBUTES.CLICK}]`);
+      const eventName = element?.getAttribute(DATA_ATTRIBUTES.CLICK);
+      if (!element || !eventName) return;
+
+      const properties: Record<string, any> = getDataAttributeProperties(element);
+
+      try {
+        properties.selector = getElementSelector(element, this.selectorConfig);
+      } catch (error) {
+        // 忽略选择器生成错误
+      }
 
-      this.eventCallback({
-        eventType: EventType.ERROR,
-        eventName: 'javascript_error',
+      this.emit({
+        eventType: EventType.USER_ACTION,
+        eventName,
         properties,
         timestamp: getCurrentTimestamp()
       });
     };
 
-    window.addEventListener('error', handleError);
-    this.unloadListeners.push(() => {
-      window.removeEventListener('error', handleError);
+    document.addEventListener('click', handleClick, true);
+    this.cleanups.push(() => {
+      document.removeEventListener('click', handleClick, true);
     });
+  }
+}
 
-    // Promise 错误
-    const handleUnhandledRejection = (event: PromiseRejectionEvent) => {
-      const properties: ErrorProperties = {
-        message: event.reason?.message || String(event.reason),
-        stack: event.reason?.stack,
-        errorType: 'promise'
-      };
+/**
+ * 曝光采集插件：带 data-argos-expose 属性的元素进入视口时上报
+ */
+export class ExposurePlugin extends CollectorPlugin {
+  readonly name = BUILTIN_PLUGINS.EXPOSURE;
+  private options: { exposure?: ExposureConfig; selector?: SelectorConfig };
 
-      this.eventCallback({
-        eventType: EventType.ERROR,
-        eventName: 'promise_rejection',
-        properties,
-        timestamp: getCurrentTimestamp()
-      });
+  constructor(options: { exposure?: ExposureConfig; selector?: SelectorConfig } = {}) {
+    super();
+    this.options = options;
+  }
+
+  protected start(): void {
+    if (!ExposureTracker.isSupported()) {
+      return;
+    }
+
+    const exposureTracker = new ExposureTracker(this.emit, this.options.exposure, this.options.selector || {});
+    exposureTracker.start();
+    this.cleanups.push(() => exposureTracker.stop());
+  }
+}
+
+/**
+ * 错误采集插件：脚本、Promise 与资源错误，以及可选的接口请求监控
+ */
+export class ErrorPlugin extends CollectorPlugin {
+  readonly name = BUILTIN_PLUGINS.ERROR;
+  private options: {
+    trackErrors?: boolean;
+    error?: ErrorConfig;
+    trackApi?: boolean;
+    api?: ApiConfig;
+    selector?: SelectorConfig;
+    ignoreUrls?: string[];
+  };
+
+  constructor(options: {
+    /** 是否收集脚本、Promise 与资源错误，默认 true */
+    trackErrors?: boolean;
+    error?: ErrorConfig;
+    /** 是否监控 fetch/XHR 请求 */
+    trackApi?: boolean;
+    api?: ApiConfig;
+    selector?: SelectorConfig;
+    /** 追踪器自身的请求地址，不监控也不记录为面包屑 */
+    ignoreUrls?: string[];
+  } = {}) {
+    super();
+    this.options = options;
+  }
+
+  protected start(tracker: PluginTracker): void {
+    const { options } = this;
+    const errorMonitor = new ErrorMonitor(this.emit, {
+      trackErrors: options.trackErrors,
+      config: options.error,
+      trackApi: options.trackApi,
+      api: options.api,
+      selector: options.selector,
+      ignoreUrls: options.ignoreUrls,
+      getSessionId: () => tracker.getSessionId()
+    });
+    errorMonitor.start();
+    this.cleanups.push(() => errorMonitor.stop());
+  }
+}
+
+/**
+ * 性能采集插件：导航耗时与 Web Vitals
+ */
+export class PerformancePlugin extends CollectorPlugin {
+  readonly name = BUILTIN_PLUGINS.PERFORMANCE;
+
+  protected start(): void {
+    this.setupNavigationTiming();
+    this.setupWebVitals();
+  }
+
+  /**
+   * 采集导航耗时
+   */
+  private setupNavigationTiming(): void {
+    const reportTiming = () => {
+      // loadEventEnd 在 load 回调执行完毕后才会赋值
+      setTimeout(() => {
+        const properties = getNavigationTiming();
+        if (properties) {
+          this.reportPerformance('navigation_timing', properties);
+        }
+      }, 0);
     };
 
-    window.addEventListener('unhandledrejection', handleUnhandledRejection);
-    this.unloadListeners.push(() => {
-      window.removeEventListener('unhandledrejection', handleUnhandledRejection);
+    if (document.readyState === 'complete') {
+      reportTiming();
+      return;
+    }
+
+    window.addEventListener('load', reportTiming);
+    this.cleanups.push(() => {
+      window.removeEventListener('load', reportTiming);
     });
+  }
 
-    // 资源加载错误
-    const handleResourceError = (event: Event) => {
-      const target = event.target as HTMLElement;
-      if (!target) return;
+  /**
+   * 采集 Web Vitals (FCP、LCP、CLS、INP)
+   */
+  private setupWebVitals(): void {
+    if (typeof PerformanceObserver === 'undefined') {
+      return;
+    }
 
-      const properties: ErrorProperties = {
-        message: `Resource load error: ${target.tagName}`,
-        filename: (target as any).src || (target as any).href,
-        errorType: 'resource'
-      };
+    const supportedTypes = PerformanceObserver.supportedEntryTypes || [];
+    const observers: PerformanceObserver[] = [];
 
-      this.eventCallback({
-        eventType: EventType.ERROR,
-        eventName: 'resource_error',
-        properties,
-        timestamp: getCurrentTimestamp()
+    const observe = (
+      type: string,
+      callback: (entries: PerformanceEntry[]) => void,
+      options: Record<string, any> = {}
+    ) => {
+      if (!supportedTypes.includes(type)) {
+        return;
+      }
+
+      try {
+        const observer = new PerformanceObserver(list => callback(list.getEntries()));
+        observer.observe({ type, buffered: true, ...options });
+        observers.push(observer);
+      } catch (error) {
+        // 忽略不支持的条目类型
+      }
+    };
+
+    // FCP
+    let fcpReported = false;
+    observe('paint', entries => {
+      entries.forEach(entry => {
+        if (entry.name === 'first-contentful-paint' && !fcpReported) {
+          fcpReported = true;
+          this.reportWebVital('FCP', entry.startTime);
+        }
       });
+    });
+
+    // LCP：以页面隐藏前最后一个候选为准
+    let lcp = 0;
+    observe('largest-contentful-paint', entries => {
+      const lastEntry = entries[entries.length - 1];
+      if (lastEntry) {
+        lcp = lastEntry.startTime;
+      }
+    });
+
+    // CLS：取会话窗口(间隔 < 1s，总长 < 5s)内累计偏移的最大值
+    let cls = 0;
+    let clsObserved = false;
+    let sessionValue = 0;
+    let sessionFirstTime = 0;
+    let sessionLastTime = 0;
+    observe('layout-shift', entries => {
+      (entries as LayoutShiftEntry[]).forEach(entry => {
+        if (entry.hadRecentInput) {
+          return;
+        }
+
+        if (
+          sessionValue > 0 &&
+          entry.startTime - sessionLastTime < 1000 &&
+          entry.startTime - sessionFirstTime < 5000
+        ) {
+          sessionValue += entry.value;
+        } else {
+          sessionValue = entry.value;
+          sessionFirstTime = entry.startTime;
+        }
+
+        sessionLastTime = entry.startTime;
+        cls = Math.max(cls, sessionValue);
+        clsObserved = true;
+      });
+    });
+
+    // INP：按 interactionId 聚合每次交互的最长耗时
+    const interactions = new Map<number, number>();
+    const handleInteractions = (entries: PerformanceEntry[]) => {
+      (entries as InteractionEntry[]).forEach(entry => {
+        if (!entry.interactionId) {
+          return;
+        }
+
+        const duration = interactions.get(entry.interactionId) || 0;
+        interactions.set(entry.interactionId, Math.max(duration, entry.duration));
+      });
+    };
+    observe('event', handleInteractions, { durationThreshold: 40 });
+    observe('first-input', handleInteractions);
+
+    let finalized = false;
+    const finalize = () => {
+      if (finalized) {
+        return;
+      }
+      finalized = true;
+
+      if (lcp > 0) {
+        this.reportWebVital('LCP', lcp);
+      }
+
+      if (clsObserved) {
+        this.reportWebVital('CLS', cls);
+      }
+
+      if (interactions.size > 0) {
+        // 交互次数较多时取第 98 百分位，忽略偶发的极端值
+        const durations = Array.from(interactions.values()).sort((a, b) => b - a);
+        const index = Math.min(durations.length - 1, Math.floor(durations.length / 50));
+        this.reportWebVital('INP', durations[index]);
+      }
+
+      observers.forEach(observer => observer.disconnect());
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        finalize();
+      }
     };
 
-    document.addEventListener('error', handleResourceError, true);
-    this.unloadListeners.push(() => {
-      document.removeEventListener('error', handleResourceError, true);
+    document.addEventListener('visibilitychange', handleVisibilityChange, true);
+    window.addEventListener('pagehide', finalize, true);
+    this.cleanups.push(() => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange, true);
+      window.removeEventListener('pagehide', finalize, true);
+      observers.forEach(observer => observer.disconnect());
+    });
+  }
+
+  /**
+   * 上报单个 Web Vitals 指标
+   */
+  private reportWebVital(metricName: Exclude<PerformanceMetricName, 'navigation' | 'api'>, value: number): void {
+    const [good, poor] = WEB_VITALS_THRESHOLDS[metricName];
+    const roundedValue = metricName === 'CLS' ? Number(value.toFixed(4)) : Math.round(value);
+
+    this.reportPerformance('web_vitals', {
+      metricName,
+      value: roundedValue,
+      rating: value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor'
+    });
+  }
+
+  /**
+   * 上报性能事件
+   */
+  private reportPerformance(eventName: string, properties: PerformanceProperties): void {
+    this.emit({
+      eventType: EventType.PERFORMANCE,
+      eventName,
+      properties,
+      timestamp: getCurrentTimestamp()
     });
   }
-}
\ No newline at end of file
+}
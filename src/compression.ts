@@ -0,0 +1,16 @@
+/**
+ * 当前环境是否支持 gzip 压缩
+ */
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' &&
+    typeof Blob !== 'undefined' &&
+    typeof Response !== 'undefined';
+}
+
+/**
+ * 使用 CompressionStream 对字符串进行 gzip 压缩
+ */
+export async function gzip(data: string): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
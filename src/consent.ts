@@ -0,0 +1,125 @@
+import { CONSENT_CATEGORIES, DEFAULT_CONSENT_CONFIG, EventType } from './constants';
+import { StorageManager } from './storage';
+import { ConsentCategory, ConsentConfig, ConsentState } from './types';
+
+/**
+ * 获取事件所属的授权类别
+ */
+export function getConsentCategory(eventType: EventType): ConsentCategory {
+  switch (eventType) {
+    case EventType.ERROR:
+      return 'error';
+    case EventType.PERFORMANCE:
+      return 'performance';
+    default:
+      return 'analytics';
+  }
+}
+
+/**
+ * 检测浏览器的隐私信号
+ */
+function hasPrivacySignal(config: ConsentConfig): boolean {
+  if (typeof navigator === 'undefined') {
+    return false;
+  }
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  const win = typeof window !== 'undefined' ? window as Window & { doNotTrack?: string } : undefined;
+
+  if (config.respectGlobalPrivacyControl && nav.globalPrivacyControl === true) {
+    return true;
+  }
+
+  if (config.respectDoNotTrack) {
+    const doNotTrack = nav.doNotTrack || win?.doNotTrack || nav.msDoNotTrack;
+    return doNotTrack === '1' || doNotTrack === 'yes';
+  }
+
+  return false;
+}
+
+/**
+ * 用户授权管理器
+ */
+export class ConsentManager {
+  private storage: StorageManager;
+  private config: ConsentConfig;
+  private state: ConsentState;
+
+  constructor(storage: StorageManager, config: ConsentConfig = {}) {
+    this.storage = storage;
+    this.config = config;
+    this.state = storage.getConsentState();
+  }
+
+  /**
+   * 授权指定类别，不传则授权全部类别
+   */
+  optIn(categories: ConsentCategory[] = [...CONSENT_CATEGORIES]): void {
+    categories.forEach(category => {
+      this.state[category] = true;
+    });
+    this.storage.setConsentState(this.state);
+  }
+
+  /**
+   * 拒绝指定类别，不传则拒绝全部类别
+   */
+  optOut(categories: ConsentCategory[] = [...CONSENT_CATEGORIES]): void {
+    categories.forEach(category => {
+      this.state[category] = false;
+    });
+    this.storage.setConsentState(this.state);
+  }
+
+  /**
+   * 是否允许采集与上报该类别的事件
+   */
+  isGranted(category: ConsentCategory): boolean {
+    const choice = this.state[category];
+
+    if (choice !== undefined) {
+      return choice;
+    }
+
+    return !this.isRequired() && !hasPrivacySignal(this.config);
+  }
+
+  /**
+   * 是否已明确拒绝或因隐私信号视为拒绝
+   */
+  isDenied(category: ConsentCategory): boolean {
+    const choice = this.state[category];
+    return choice === false || (choice === undefined && hasPrivacySignal(this.config));
+  }
+
+  /**
+   * 用户尚未选择时事件是否需要暂存
+   */
+  shouldBuffer(category: ConsentCategory): boolean {
+    const pendingMode = this.config.pendingMode || DEFAULT_CONSENT_CONFIG.pendingMode;
+    return pendingMode === 'buffer' && !this.isGranted(category) && !this.isDenied(category);
+  }
+
+  /**
+   * 获取当前授权状态
+   */
+  getState(): ConsentState {
+    return { ...this.state };
+  }
+
+  /**
+   * 更新授权配置
+   */
+  updateConfig(config: ConsentConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * 是否需要用户明确授权
+   */
+  private isRequired(): boolean {
+    return this.config.required ?? DEFAULT_CONSENT_CONFIG.required;
+  }
+}
@@ -15,7 +15,25 @@ export enum EventType {
   /** 性能事件 */
   PERFORMANCE = 'performance',
   /** 用户行为 */
-  USER_ACTION = 'user_action'
+  USER_ACTION = 'user_action',
+  /** 用户画像更新 */
+  USER_PROFILE = 'user_profile',
+  /** 用户身份关联 */
+  IDENTIFY = 'identify',
+  /** 会话生命周期 */
+  SESSION = 'session',
+  /** 元素曝光 */
+  EXPOSURE = 'exposure',
+  /** 狂点：短时间内在同一位置连续点击 */
+  RAGE_CLICK = 'rage_click',
+  /** 无效点击：点击后页面没有任何响应 */
+  DEAD_CLICK = 'dead_click',
+  /** 报错点击：点击后出现 JavaScript 错误 */
+  ERROR_CLICK = 'error_click',
+  /** SDK 诊断事件，如事件不符合声明的结构 */
+  DIAGNOSTIC = 'diagnostic',
+  /** 漏斗步骤、完成与放弃 */
+  FUNNEL = 'funnel'
 }
 
 /**
@@ -40,20 +58,304 @@ export const DEFAULT_CONFIG = {
   debug: false,
   timeout: 10000,
   autoTrackPageView: true,
+  trackHashChange: true,
   autoTrackClick: false,
+  autoTrackDeclarative: false,
+  autoTrackExposure: false,
+  autoTrackFrustration: false,
   autoTrackError: true,
-  headers: {
-    'Content-Type': 'application/json'
-  } as Record<string, string>
+  autoTrackApi: false,
+  autoTrackPerformance: false,
+  autoTrackSession: false,
+  /** Content-Type 由上报数据格式决定 */
+  headers: {} as Record<string, string>
 } as const;
 
+/**
+ * Web Vitals 评级阈值 [good, poor]
+ */
+export const WEB_VITALS_THRESHOLDS = {
+  FCP: [1800, 3000],
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500]
+} as const;
+
+/**
+ * 传输方式限制
+ */
+export const TRANSPORT_LIMITS = {
+  /** sendBeacon 与 keepalive fetch 的请求体上限 */
+  BEACON_MAX_BYTES: 64 * 1024,
+  /** 图片打点 GET 请求的 URL 长度上限 */
+  IMAGE_MAX_URL_LENGTH: 8000
+};
+
+/**
+ * 请求体压缩默认配置
+ */
+export const DEFAULT_COMPRESSION_CONFIG = {
+  enabled: false,
+  /** 小于 1KB 的请求压缩收益有限 */
+  threshold: 1024
+};
+
+/**
+ * 已确认送达的事件ID最多保留条数
+ */
+export const ACK_CACHE_SIZE = 1000;
+
+/**
+ * 默认上报目标(reportUrl)的名称
+ */
+export const DEFAULT_DESTINATION = 'default';
+
+/**
+ * 上报重试默认配置
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000
+} as const;
+
+/**
+ * 用户授权默认配置
+ */
+export const DEFAULT_CONSENT_CONFIG = {
+  required: false,
+  pendingMode: 'buffer',
+  maxBufferSize: 100,
+  respectDoNotTrack: false,
+  respectGlobalPrivacyControl: false
+} as const;
+
+/**
+ * 全部授权类别
+ */
+export const CONSENT_CATEGORIES = ['analytics', 'error', 'performance'] as const;
+
+/**
+ * 事件结构校验默认配置
+ */
+export const DEFAULT_SCHEMA_CONFIG = {
+  mode: 'debug',
+  allowUnknownEvents: true,
+  allowUnknownProperties: true,
+  reportViolations: true
+} as const;
+
+/**
+ * 内置采集插件名称
+ */
+export const BUILTIN_PLUGINS = {
+  PAGE_VIEW: 'argos:page-view',
+  CLICK: 'argos:click',
+  EXPOSURE: 'argos:exposure',
+  ERROR: 'argos:error',
+  PERFORMANCE: 'argos:performance'
+} as const;
+
+/**
+ * 声明式埋点使用的 data 属性
+ */
+export const DATA_ATTRIBUTES = {
+  /** 点击时上报的事件名称 */
+  CLICK: 'data-argos-click',
+  /** 曝光时上报的事件名称 */
+  EXPOSE: 'data-argos-expose',
+  /** 事件属性前缀，如 data-argos-prop-sku="123" */
+  PROP_PREFIX: 'data-argos-prop-'
+};
+
+/**
+ * 选择器生成默认配置
+ */
+export const DEFAULT_SELECTOR_CONFIG = {
+  /** 优先用于定位元素的稳定属性 */
+  stableAttributes: ['data-testid', 'data-argos-id'],
+  /** 构建工具生成的哈希 class/id：emotion、styled-components、styled-jsx、CSS Modules 以及 React useId */
+  hashedPatterns: [
+    /^css-[a-z0-9]+$/i,
+    /^sc-[a-zA-Z0-9]+$/,
+    /^jsx-\d+$/,
+    /(?:__|_|-)(?=[a-zA-Z0-9]*\d)[a-zA-Z0-9]{5,}$/,
+    /^:r[a-z0-9]*:$/
+  ],
+  /** 每个元素最多使用的 class 数量 */
+  maxClasses: 2
+};
+
+/**
+ * 可交互元素，点击其后代时以该元素作为点击目标
+ */
+export const INTERACTIVE_SELECTOR = [
+  'a[href]',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'label',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="menuitem"]',
+  '[role="tab"]',
+  '[role="checkbox"]',
+  '[role="option"]',
+  `[${DATA_ATTRIBUTES.CLICK}]`
+].join(',');
+
+/**
+ * 点击采集默认配置
+ */
+export const DEFAULT_CLICK_CONFIG = {
+  /** 始终忽略的元素 */
+  ignoreSelector: '[data-argos-ignore]',
+  /** 文本需要脱敏的元素 */
+  maskSelector: 'input, textarea, select, [contenteditable], [data-argos-mask]',
+  walkUpToInteractive: true,
+  maskInputText: true,
+  /** 采集的文本最大长度 */
+  maxTextLength: 100
+};
+
+/**
+ * 无效点击只检测这些预期会产生响应的元素，输入框等控件不产生 DOM 变化也属正常
+ */
+export const DEAD_CLICK_SELECTOR = [
+  'a[href]',
+  'button',
+  'input[type="button"]',
+  'input[type="submit"]',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="menuitem"]',
+  '[role="tab"]',
+  `[${DATA_ATTRIBUTES.CLICK}]`
+].join(',');
+
+/**
+ * 挫败点击检测默认配置
+ */
+export const DEFAULT_FRUSTRATION_CONFIG = {
+  rageClickCount: 3,
+  rageClickRadius: 30,
+  rageClickWindow: 1000,
+  deadClickTimeout: 1000,
+  errorClickWindow: 1000
+};
+
+/**
+ * 错误监控默认配置
+ */
+export const DEFAULT_ERROR_CONFIG = {
+  breadcrumbs: ['click', 'navigation', 'console', 'fetch'],
+  maxBreadcrumbs: 20,
+  maxErrorsPerFingerprint: 10,
+  /** 解析的最大堆栈帧数 */
+  maxStackFrames: 50,
+  /** 控制台面包屑的最大长度 */
+  maxConsoleLength: 200
+};
+
+/**
+ * 接口监控默认配置
+ */
+export const DEFAULT_API_CONFIG = {
+  /** 慢请求阈值(ms) */
+  slowThreshold: 3000
+};
+
+/**
+ * 曝光默认配置
+ */
+export const DEFAULT_EXPOSURE_CONFIG = {
+  /** 元素可见比例达到该值才开始计时 */
+  threshold: 0.5,
+  /** 持续可见该时长(ms)后上报 */
+  minDuration: 1000
+} as const;
+
+/**
+ * 会话默认配置
+ */
+export const DEFAULT_SESSION_CONFIG = {
+  timeout: 30 * 60 * 1000,
+  rolloverAtMidnight: false,
+  rolloverOnUtmChange: false
+} as const;
+
+/**
+ * 离线缓存默认配置
+ */
+export const DEFAULT_OFFLINE_QUEUE_CONFIG = {
+  maxEvents: 1000,
+  maxBytes: 1024 * 1024,
+  evictionPolicy: 'oldest'
+} as const;
+
+/**
+ * 事件优先级，离线缓存按 priority 策略淘汰时优先淘汰低优先级事件
+ */
+export const EVENT_PRIORITY: Record<EventType, number> = {
+  [EventType.ERROR]: 5,
+  [EventType.CUSTOM]: 4,
+  [EventType.USER_ACTION]: 4,
+  [EventType.USER_PROFILE]: 4,
+  [EventType.IDENTIFY]: 5,
+  [EventType.SESSION]: 4,
+  [EventType.PAGE_VIEW]: 3,
+  [EventType.PAGE_DURATION]: 2,
+  [EventType.CLICK]: 1,
+  [EventType.EXPOSURE]: 1,
+  [EventType.RAGE_CLICK]: 2,
+  [EventType.DEAD_CLICK]: 2,
+  [EventType.ERROR_CLICK]: 3,
+  [EventType.PERFORMANCE]: 1,
+  [EventType.DIAGNOSTIC]: 1,
+  [EventType.FUNNEL]: 4
+};
+
+/**
+ * IndexedDB 配置
+ */
+export const INDEXED_DB_CONFIG = {
+  DB_NAME: 'argos_tracker',
+  STORE_NAME: 'pending_events',
+  VERSION: 1
+};
+
+/**
+ * 多标签页协调配置
+ */
+export const TAB_COORDINATION = {
+  /** 主标签页选举使用的 Web Locks 锁名称 */
+  LEADER_LOCK: 'argos_leader',
+  /** 离线缓存读写使用的 Web Locks 锁名称 */
+  QUEUE_LOCK: 'argos_pending_events',
+  /** 不支持 Web Locks 时，主标签页租约的续期间隔(ms) */
+  HEARTBEAT_INTERVAL: 2000,
+  /** 租约有效期(ms)，主标签页关闭后其他标签页最迟在此时间后接管 */
+  LEASE_TIMEOUT: 6000,
+  /** 主标签页定期上报离线缓存的间隔(ms) */
+  DRAIN_INTERVAL: 30000
+};
+
 /**
  * 存储键名
  */
 export const STORAGE_KEYS = {
-  SESSION_ID: 'argos_session_id',
+  SESSION: 'argos_session',
   USER_ID: 'argos_user_id',
-  PENDING_EVENTS: 'argos_pending_events'
+  ANONYMOUS_ID: 'argos_anonymous_id',
+  PENDING_EVENTS: 'argos_pending_events',
+  UNLOAD_EVENTS: 'argos_unload_events',
+  SUPER_PROPERTIES: 'argos_super_properties',
+  CONSENT: 'argos_consent',
+  LEADER: 'argos_leader',
+  ACKED_EVENTS: 'argos_acked_events',
+  FUNNELS: 'argos_funnels'
 };
 
 /**
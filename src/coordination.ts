@@ -0,0 +1,203 @@
+import { STORAGE_KEYS, TAB_COORDINATION } from './constants';
+import { generateUUID, getCurrentTimestamp, safeParse, safeStringify } from './utils';
+
+/**
+ * 主标签页租约
+ */
+interface LeaderLease {
+  /** 持有租约的标签页ID */
+  id: string;
+  /** 租约过期时间 */
+  expiresAt: number;
+}
+
+/**
+ * 不支持 Web Locks 时，同一标签页内按名称串行执行的任务链
+ */
+const localLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * 当前环境是否支持 Web Locks
+ */
+function hasWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.locks && typeof navigator.locks.request === 'function';
+}
+
+/**
+ * 独占执行任务
+ * 支持 Web Locks 时跨标签页互斥，否则只保证同一标签页内串行
+ */
+export function runExclusive<T>(name: string, task: () => Promise<T>): Promise<T> {
+  if (hasWebLocks()) {
+    return navigator.locks.request(name, () => task()) as Promise<T>;
+  }
+
+  const previous = localLocks.get(name) || Promise.resolve();
+  const result = previous.then(() => task());
+  localLocks.set(name, result.catch(() => undefined));
+
+  return result;
+}
+
+/**
+ * 主标签页选举
+ * 优先使用 Web Locks：持有锁的标签页即为主标签页，关闭后锁自动释放给下一个标签页；
+ * 不支持时使用 localStorage 租约，主标签页定期续期，其他标签页在租约释放(storage 事件)或过期后接管
+ */
+export class LeaderElector {
+  private readonly id = generateUUID();
+  private onChange: (isLeader: boolean) => void;
+  private leader = false;
+  private started = false;
+  private abortController?: AbortController;
+  private releaseLock?: () => void;
+  private heartbeatTimer: number | null = null;
+  private handleStorage = (event: StorageEvent) => {
+    // 主标签页主动释放租约时立即尝试接管
+    if (event.key === STORAGE_KEYS.LEADER && !event.newValue) {
+      this.heartbeat();
+    }
+  };
+
+  constructor(onChange: (isLeader: boolean) => void) {
+    this.onChange = onChange;
+  }
+
+  /**
+   * 开始参与选举
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+
+    if (hasWebLocks()) {
+      this.requestLock();
+      return;
+    }
+
+    window.addEventListener('storage', this.handleStorage);
+    this.heartbeatTimer = window.setInterval(() => this.heartbeat(), TAB_COORDINATION.HEARTBEAT_INTERVAL);
+    this.heartbeat();
+  }
+
+  /**
+   * 退出选举，主标签页会释放锁或租约
+   */
+  stop(): void {
+    if (!this.started) {
+      return;
+    }
+
+    this.started = false;
+    this.abortController?.abort();
+    this.releaseLock?.();
+    this.releaseLock = undefined;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+      window.removeEventListener('storage', this.handleStorage);
+
+      if (this.leader) {
+        this.releaseLease();
+      }
+    }
+
+    this.setLeader(false);
+  }
+
+  /**
+   * 当前标签页是否为主标签页
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 请求 Web Locks 锁，获得后一直持有到 stop 或页面关闭
+   */
+  private requestLock(): void {
+    this.abortController = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+
+    navigator.locks.request(TAB_COORDINATION.LEADER_LOCK, { signal: this.abortController?.signal }, () => {
+      if (!this.started) {
+        return undefined;
+      }
+
+      this.setLeader(true);
+      return new Promise<void>(resolve => {
+        this.releaseLock = resolve;
+      });
+    }).catch(() => {
+      // stop 时取消等待中的请求会抛出 AbortError
+    });
+  }
+
+  /**
+   * 续期或抢占租约
+   */
+  private heartbeat(): void {
+    if (!this.started) {
+      return;
+    }
+
+    try {
+      const now = getCurrentTimestamp();
+      const lease = this.readLease();
+
+      if (lease && lease.id !== this.id && lease.expiresAt > now) {
+        this.setLeader(false);
+        return;
+      }
+
+      // 租约空闲、已过期或属于自己时写入并确认，多个标签页同时写入时以最后写入的为准
+      localStorage.setItem(STORAGE_KEYS.LEADER, safeStringify({
+        id: this.id,
+        expiresAt: now + TAB_COORDINATION.LEASE_TIMEOUT
+      }));
+
+      const confirmed = this.readLease();
+      // 读不回写入的租约说明 localStorage 不可用，无法跨标签页协调，按单标签页处理
+      this.setLeader(!confirmed || confirmed.id === this.id);
+    } catch (error) {
+      this.setLeader(true);
+    }
+  }
+
+  /**
+   * 读取当前租约
+   */
+  private readLease(): LeaderLease | null {
+    const value = localStorage.getItem(STORAGE_KEYS.LEADER);
+    const lease = value ? safeParse<LeaderLease | null>(value, null) : null;
+    return lease && lease.id ? lease : null;
+  }
+
+  /**
+   * 释放自己持有的租约
+   */
+  private releaseLease(): void {
+    try {
+      if (this.readLease()?.id === this.id) {
+        localStorage.removeItem(STORAGE_KEYS.LEADER);
+      }
+    } catch (error) {
+      // 忽略存储异常
+    }
+  }
+
+  /**
+   * 更新主标签页状态
+   */
+  private setLeader(isLeader: boolean): void {
+    if (this.leader === isLeader) {
+      return;
+    }
+
+    this.leader = isLeader;
+    this.onChange(isLeader);
+  }
+}
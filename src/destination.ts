@@ -0,0 +1,353 @@
+import { DEFAULT_DESTINATION, ReportMethod } from './constants';
+import { Reporter } from './reporter';
+import { StorageManager } from './storage';
+import { DestinationConfig, ReportResult, TrackerConfig, TrackEvent, Transport } from './types';
+
+/**
+ * 上报目标
+ * 持有独立的发送队列、批量定时器、上报器(重试状态)与离线缓存
+ */
+export class Destination {
+  readonly name: string;
+  private config: TrackerConfig;
+  private options?: DestinationConfig;
+  private storage: StorageManager;
+  private reporter: Reporter;
+  private eventQueue: TrackEvent[] = [];
+  private batchTimer: number | null = null;
+  private isDrainingPending = false;
+  /** 等待重试的批次，页面卸载时改由 beacon 发送 */
+  private retryingBatches = new Set<TrackEvent[]>();
+  /** 已在页面卸载时交由 beacon 发送的批次 */
+  private handedOffBatches = new WeakSet<TrackEvent[]>();
+  private onReport?: (events: TrackEvent[], result: ReportResult, destination: string) => void;
+  private isDenied: (event: TrackEvent) => boolean;
+
+  /**
+   * 不传 options 时为使用全局 reportUrl 的默认目标
+   */
+  constructor(
+    config: TrackerConfig,
+    storage: StorageManager,
+    options?: DestinationConfig,
+    callbacks: {
+      /** 一批事件上报完成(成功或失败)后调用 */
+      onReport?: (events: TrackEvent[], result: ReportResult, destination: string) => void;
+      /** 事件类别是否已被拒绝授权，拒绝后不再缓存或补发 */
+      isDenied?: (event: TrackEvent) => boolean;
+    } = {}
+  ) {
+    this.name = options ? options.name : DEFAULT_DESTINATION;
+    this.options = options;
+    this.storage = storage;
+    this.onReport = callbacks.onReport;
+    this.isDenied = callbacks.isDenied || (() => false);
+    this.config = this.resolveConfig(config);
+    this.reporter = new Reporter(this.config);
+  }
+
+  /**
+   * 判断事件是否发送到该目标，默认目标接收全部事件
+   */
+  matches(event: TrackEvent): boolean {
+    if (!this.options) {
+      return true;
+    }
+
+    const { eventTypes, eventNames, filter } = this.options;
+    const listed = (!eventTypes && !eventNames) ||
+      !!eventTypes?.includes(event.eventType) ||
+      !!eventNames?.includes(event.eventName);
+
+    if (!listed) {
+      return false;
+    }
+
+    try {
+      return !filter || filter(event);
+    } catch (error) {
+      this.log('Destination filter failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 是否独占匹配的事件(不再发送到默认目标)
+   */
+  isExclusive(): boolean {
+    return this.options?.exclusive !== false;
+  }
+
+  /**
+   * 事件入队，按上报方式立即发送或等待批量发送
+   */
+  enqueue(event: TrackEvent): void {
+    this.eventQueue.push(event);
+    this.log('Event added to queue:', event.eventName);
+
+    if (this.config.reportMethod === ReportMethod.IMMEDIATE) {
+      this.sendEvents();
+    } else if (this.config.reportMethod === ReportMethod.BATCH) {
+      if (this.eventQueue.length >= (this.config.batchSize || 10)) {
+        this.sendEvents();
+      } else {
+        this.scheduleBatchSend();
+      }
+    }
+  }
+
+  /**
+   * 立即发送队列中的事件
+   */
+  async flush(): Promise<void> {
+    this.clearBatchTimer();
+    await this.sendEvents();
+  }
+
+  /**
+   * 按条件过滤队列中尚未发送的事件
+   */
+  filterQueue(predicate: (event: TrackEvent) => boolean): void {
+    this.eventQueue = this.eventQueue.filter(predicate);
+  }
+
+  /**
+   * 取消批量定时器与等待中的重试
+   */
+  cancel(): void {
+    this.clearBatchTimer();
+    this.reporter.cancelRetries();
+  }
+
+  /**
+   * 注册自定义传输方式
+   */
+  registerTransport(transport: Transport): void {
+    this.reporter.registerTransport(transport);
+  }
+
+  /**
+   * 更新配置
+   */
+  updateConfig(config: TrackerConfig, options?: DestinationConfig): void {
+    if (options) {
+      this.options = options;
+    }
+    this.config = this.resolveConfig(config);
+    this.reporter.updateConfig(this.config);
+  }
+
+  /**
+   * 页面卸载时通过 beacon 发送剩余事件与等待重试的批次，并同步写入备份
+   * beacon 发送成功的事件会记录为已确认，下次恢复离线缓存时跳过
+   */
+  flushOnUnload(): void {
+    const retryingBatches = Array.from(this.retryingBatches);
+    retryingBatches.forEach(batch => this.handedOffBatches.add(batch));
+    this.retryingBatches.clear();
+    if (retryingBatches.length > 0) {
+      // 结束退避等待，被接管的批次不再重试或写入离线缓存
+      this.reporter.cancelRetries();
+    }
+
+    // 取出队列，beforeunload 与 pagehide 先后触发时不会重复发送
+    const events = [
+      ...retryingBatches.reduce((all: TrackEvent[], batch) => all.concat(batch), []),
+      ...this.eventQueue
+    ].filter(event => !this.isDenied(event));
+    this.eventQueue = [];
+
+    if (events.length === 0) {
+      return;
+    }
+
+    this.storage.backupPendingEvents(events, this.getStorageKey());
+    this.reporter.report(events, ReportMethod.BEACON).then(result => {
+      this.notifyReport(events, result);
+      if (result.success) {
+        this.acknowledge(events);
+      }
+    });
+  }
+
+  /**
+   * 发送离线缓存中的事件，上报成功后按记录ID确认移除
+   */
+  async sendPendingEvents(): Promise<void> {
+    if (this.isDrainingPending) {
+      return;
+    }
+
+    this.isDrainingPending = true;
+    try {
+      await this.drainPendingEvents();
+    } finally {
+      this.isDrainingPending = false;
+    }
+  }
+
+  /**
+   * 合并全局配置与目标配置
+   */
+  private resolveConfig(config: TrackerConfig): TrackerConfig {
+    return this.options ? { ...config, ...this.options } : config;
+  }
+
+  /**
+   * 离线缓存中的目标标识，默认目标为空以兼容旧版本缓存
+   */
+  private getStorageKey(): string | undefined {
+    return this.options ? this.name : undefined;
+  }
+
+  /**
+   * 确认事件已送达
+   */
+  private acknowledge(events: TrackEvent[]): void {
+    this.storage.acknowledgeEvents(
+      events.filter(event => event.eventId).map(event => this.getAckId(event))
+    );
+  }
+
+  /**
+   * 事件在该目标下的确认ID，同一事件发送到多个目标时分别确认
+   */
+  private getAckId(event: TrackEvent): string {
+    return this.options ? `${this.name}:${event.eventId}` : event.eventId as string;
+  }
+
+  /**
+   * 调度批量发送
+   */
+  private scheduleBatchSend(): void {
+    if (this.batchTimer) {
+      return;
+    }
+
+    this.batchTimer = window.setTimeout(() => {
+      this.sendEvents();
+      this.batchTimer = null;
+    }, this.config.batchInterval || 5000);
+  }
+
+  /**
+   * 清除批量定时器
+   */
+  private clearBatchTimer(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+  }
+
+  /**
+   * 发送事件
+   */
+  private async sendEvents(): Promise<void> {
+    if (this.eventQueue.length === 0) {
+      return;
+    }
+
+    const eventsToSend = [...this.eventQueue];
+    this.eventQueue = [];
+
+    try {
+      const result = await this.reporter.report(eventsToSend, undefined, () => this.retryingBatches.add(eventsToSend));
+      this.retryingBatches.delete(eventsToSend);
+      if (this.handedOffBatches.has(eventsToSend)) {
+        return;
+      }
+
+      this.notifyReport(eventsToSend, result);
+
+      if (!result.success) {
+        if (result.retryable) {
+          // 上报失败，保存到本地存储
+          await this.saveAllowedEvents(eventsToSend);
+          this.log('Events saved to storage due to report failure');
+        } else {
+          // 4xx 等不可重试的错误，缓存后重发也不会成功
+          this.log('Events dropped due to permanent failure:', result.status);
+        }
+      }
+    } catch (error) {
+      this.retryingBatches.delete(eventsToSend);
+      if (this.handedOffBatches.has(eventsToSend)) {
+        return;
+      }
+
+      // 上报异常，保存到本地存储
+      await this.saveAllowedEvents(eventsToSend);
+      this.log('Events saved to storage due to error:', error);
+    }
+  }
+
+  /**
+   * 将仍有授权的事件写入离线缓存，重试期间被拒绝授权(如 optOut 取消了退避等待)的事件直接丢弃
+   */
+  private async saveAllowedEvents(events: TrackEvent[]): Promise<void> {
+    const allowed = events.filter(event => !this.isDenied(event));
+    if (allowed.length > 0) {
+      await this.storage.savePendingEvents(allowed, this.getStorageKey());
+    }
+  }
+
+  /**
+   * 逐批上报离线缓存，遇到可重试的失败时停止，不可重试的批次直接丢弃
+   */
+  private async drainPendingEvents(): Promise<void> {
+    const records = await this.storage.getPendingEvents(this.getStorageKey());
+    const acknowledged = this.storage.getAcknowledgedEventIds();
+    const isDelivered = (event: TrackEvent) => !!event.eventId && acknowledged.has(this.getAckId(event));
+
+    // 已确认送达的事件(如页面卸载时 beacon 已发送的备份)与已拒绝授权类别的事件直接移除
+    const skipped = records.filter(record => isDelivered(record.event) || this.isDenied(record.event));
+    if (skipped.length > 0) {
+      this.log('Skipping delivered or denied pending events:', skipped.length);
+      await this.storage.removePendingEvents(skipped.map(record => record.id));
+    }
+
+    const pendingEvents = records.filter(record => !isDelivered(record.event) && !this.isDenied(record.event));
+    if (pendingEvents.length === 0) {
+      return;
+    }
+
+    this.log('Restoring pending events:', pendingEvents.length);
+
+    const batchSize = this.config.batchSize || 10;
+    for (let i = 0; i < pendingEvents.length; i += batchSize) {
+      const batch = pendingEvents.slice(i, i + batchSize);
+      const events = batch.map(record => record.event);
+      const result = await this.reporter.report(events);
+      this.notifyReport(events, result);
+
+      if (!result.success && result.retryable) {
+        this.log('Pending events report failed, will retry later');
+        return;
+      }
+
+      // 先记录确认再移除，移除前页面关闭或其他标签页同时上报时不会重复发送
+      if (result.success) {
+        this.acknowledge(events);
+      }
+      await this.storage.removePendingEvents(batch.map(record => record.id));
+    }
+  }
+
+  /**
+   * 通知上报结果
+   */
+  private notifyReport(events: TrackEvent[], result: ReportResult): void {
+    this.onReport?.(events, result, this.name);
+  }
+
+  /**
+   * 输出日志
+   */
+  private log(message: string, ...args: any[]): void {
+    if (this.config.debug) {
+      const prefix = this.options ? `[ArgosTracker:${this.name}]` : '[ArgosTracker]';
+      console.log(`${prefix} ${message}`, ...args);
+    }
+  }
+}
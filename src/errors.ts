@@ -0,0 +1,345 @@
+import { DEFAULT_API_CONFIG, DEFAULT_ERROR_CONFIG, EventType } from './constants';
+import { BreadcrumbRecorder } from './breadcrumbs';
+import { NetworkInstrumentation, NetworkRequest } from './network';
+import {
+  ApiConfig,
+  ErrorConfig,
+  ErrorProperties,
+  PerformanceProperties,
+  SelectorConfig,
+  StackFrame,
+  TrackEvent
+} from './types';
+import { getErrorFingerprint, parseStackTrace } from './stacktrace';
+import { getCurrentTimestamp } from './utils';
+
+/**
+ * 作为错误上报的控制台方法
+ */
+const CAPTURED_CONSOLE_LEVELS = ['error', 'warn'] as const;
+
+/**
+ * 获取加载失败的资源地址
+ */
+function getResourceUrl(target: HTMLElement): string | undefined {
+  if (
+    target instanceof HTMLScriptElement ||
+    target instanceof HTMLImageElement ||
+    target instanceof HTMLMediaElement ||
+    target instanceof HTMLSourceElement ||
+    target instanceof HTMLIFrameElement
+  ) {
+    return target.src || undefined;
+  }
+
+  if (target instanceof HTMLLinkElement) {
+    return target.href || undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * 错误监控
+ * 收集 JavaScript 错误、Promise 异常、资源加载错误以及可选的接口错误与控制台错误，解析堆栈并计算指纹，
+ * 同一会话内相同指纹的错误超过上限后不再上报，每个错误附带最近的面包屑
+ */
+export class ErrorMonitor {
+  private eventCallback: (event: TrackEvent) => void;
+  private trackErrors: boolean;
+  private captureConsole: boolean;
+  private slowThreshold: number;
+  private maxErrorsPerFingerprint: number;
+  private getSessionId?: () => string;
+  private breadcrumbs: BreadcrumbRecorder;
+  private network: NetworkInstrumentation | null = null;
+  private cleanups: (() => void)[] = [];
+  private occurrences = new Map<string, number>();
+  private sessionId?: string;
+  private isReportingConsole = false;
+  private isStarted = false;
+
+  constructor(
+    eventCallback: (event: TrackEvent) => void,
+    options: {
+      /** 是否收集脚本、Promise 与资源错误，默认 true */
+      trackErrors?: boolean;
+      config?: ErrorConfig;
+      /** 是否监控 fetch/XHR 请求 */
+      trackApi?: boolean;
+      api?: ApiConfig;
+      selector?: SelectorConfig;
+      /** 追踪器自身的请求地址前缀，不监控也不记录为面包屑 */
+      ignoreUrls?: string[];
+      /** 获取当前会话ID，会话变化后重新计算错误次数 */
+      getSessionId?: () => string;
+    } = {}
+  ) {
+    const config = options.config || {};
+    const api = options.api || {};
+    const ignoreUrls = options.ignoreUrls || [];
+
+    this.eventCallback = eventCallback;
+    this.trackErrors = options.trackErrors !== false;
+    this.captureConsole = this.trackErrors && !!config.captureConsole;
+    this.slowThreshold = api.slowThreshold ?? DEFAULT_API_CONFIG.slowThreshold;
+    this.getSessionId = options.getSessionId;
+    this.maxErrorsPerFingerprint = config.maxErrorsPerFingerprint ?? DEFAULT_ERROR_CONFIG.maxErrorsPerFingerprint;
+    this.breadcrumbs = new BreadcrumbRecorder({
+      types: config.breadcrumbs,
+      maxBreadcrumbs: config.maxBreadcrumbs,
+      selector: options.selector,
+      ignoreUrls,
+      // 替换了 fetch/XHR 时由请求回调记录更完整的面包屑(含请求方式与状态码)
+      observeRequests: !options.trackApi
+    });
+
+    if (options.trackApi) {
+      this.network = new NetworkInstrumentation(
+        request => this.handleRequest(request),
+        [...ignoreUrls, ...(api.ignoreUrls || [])]
+      );
+    }
+  }
+
+  /**
+   * 开始监控
+   */
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+    this.breadcrumbs.start();
+
+    if (this.trackErrors) {
+      window.addEventListener('error', this.handleError);
+      window.addEventListener('unhandledrejection', this.handleRejection);
+      document.addEventListener('error', this.handleResourceError, true);
+      this.cleanups.push(() => {
+        window.removeEventListener('error', this.handleError);
+        window.removeEventListener('unhandledrejection', this.handleRejection);
+        document.removeEventListener('error', this.handleResourceError, true);
+      });
+    }
+
+    if (this.captureConsole) {
+      this.patchConsole();
+    }
+
+    if (this.network) {
+      const network = this.network;
+      network.start();
+      this.cleanups.push(() => network.stop());
+    }
+  }
+
+  /**
+   * 停止监控，按注册的相反顺序还原被替换的方法
+   */
+  stop(): void {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+    this.cleanups.reverse().forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.breadcrumbs.stop();
+    this.occurrences.clear();
+  }
+
+  /**
+   * JavaScript 错误
+   */
+  private handleError = (event: ErrorEvent): void => {
+    const stack = event.error?.stack;
+
+    this.report('javascript_error', {
+      message: event.message,
+      stack,
+      filename: event.filename,
+      lineno: event.lineno,
+      colno: event.colno,
+      errorType: 'javascript',
+      frames: parseStackTrace(stack)
+    });
+  };
+
+  /**
+   * Promise 错误
+   */
+  private handleRejection = (event: PromiseRejectionEvent): void => {
+    const stack = event.reason?.stack;
+
+    this.report('promise_rejection', {
+      message: event.reason?.message || String(event.reason),
+      stack,
+      errorType: 'promise',
+      frames: parseStackTrace(stack)
+    });
+  };
+
+  /**
+   * 资源加载错误
+   */
+  private handleResourceError = (event: Event): void => {
+    const target = event.target;
+    if (!(target instanceof HTMLElement)) return;
+
+    this.report('resource_error', {
+      message: `Resource load error: ${target.tagName}`,
+      filename: getResourceUrl(target),
+      errorType: 'resource'
+    });
+  };
+
+  /**
+   * 请求结束：记录面包屑，非 2xx 响应与网络错误上报接口错误，超过阈值的请求上报慢请求
+   */
+  private handleRequest(request: NetworkRequest): void {
+    const { method, url, status, duration } = request;
+
+    this.breadcrumbs.add({
+      type: 'fetch',
+      message: `${method} ${url}`,
+      data: { status, duration, initiatorType: request.initiatorType }
+    });
+
+    if (!request.ok) {
+      // 状态码参与指纹但不经过消息的数字规范化，同一接口的 404 与 500 分别聚合
+      this.report('api_error', {
+        message: request.error || `HTTP ${status}`,
+        errorType: 'api',
+        method,
+        url,
+        status,
+        duration
+      }, getErrorFingerprint(`api:${status}`, method, [], { filename: url }));
+      return;
+    }
+
+    if (this.slowThreshold > 0 && duration >= this.slowThreshold) {
+      if (this.countOccurrence(`slow|${method}|${url}`) > this.maxErrorsPerFingerprint) {
+        return;
+      }
+
+      const properties: PerformanceProperties = {
+        metricName: 'api',
+        value: duration,
+        rating: 'poor',
+        method,
+        url,
+        status
+      };
+
+      this.eventCallback({
+        eventType: EventType.PERFORMANCE,
+        eventName: 'api_slow',
+        properties,
+        timestamp: getCurrentTimestamp()
+      });
+    }
+  }
+
+  /**
+   * 替换 console.error/console.warn，输出作为错误上报，追踪器自身的日志除外
+   */
+  private patchConsole(): void {
+    CAPTURED_CONSOLE_LEVELS.forEach(level => {
+      const original = console[level];
+      if (typeof original !== 'function') {
+        return;
+      }
+
+      console[level] = (...args: any[]) => {
+        this.handleConsole(level, args);
+        original.apply(console, args);
+      };
+
+      this.cleanups.push(() => {
+        console[level] = original;
+      });
+    });
+  }
+
+  /**
+   * 上报控制台错误，上报过程中产生的控制台输出不再上报，避免递归
+   */
+  private handleConsole(level: 'error' | 'warn', args: any[]): void {
+    if (this.isReportingConsole) {
+      return;
+    }
+
+    const error = args.find(arg => arg instanceof Error) as Error | undefined;
+    const message = args
+      .map(arg => (arg instanceof Error ? `${arg.name}: ${arg.message}` : String(arg)))
+      .join(' ')
+      .substring(0, DEFAULT_ERROR_CONFIG.maxConsoleLength);
+
+    if (!message || message.indexOf('[ArgosTracker') === 0) {
+      return;
+    }
+
+    this.isReportingConsole = true;
+    try {
+      this.report(`console_${level}`, {
+        message,
+        stack: error?.stack,
+        errorType: 'console',
+        frames: parseStackTrace(error?.stack)
+      });
+    } finally {
+      this.isReportingConsole = false;
+    }
+  }
+
+  /**
+   * 计算指纹并按会话限流后上报
+   */
+  private report(eventName: string, properties: ErrorProperties, fingerprint?: string): void {
+    const frames = properties.frames || [];
+
+    if (!fingerprint) {
+      const location: StackFrame = { filename: properties.filename, lineno: properties.lineno, colno: properties.colno };
+      fingerprint = getErrorFingerprint(properties.errorType, properties.message, frames, location);
+    }
+
+    const occurrence = this.countOccurrence(fingerprint);
+    if (occurrence > this.maxErrorsPerFingerprint) {
+      return;
+    }
+
+    if (frames.length === 0) {
+      delete properties.frames;
+    }
+
+    this.eventCallback({
+      eventType: EventType.ERROR,
+      eventName,
+      properties: {
+        ...properties,
+        fingerprint,
+        occurrence,
+        breadcrumbs: this.breadcrumbs.getAll()
+      },
+      timestamp: getCurrentTimestamp()
+    });
+  }
+
+  /**
+   * 记录一次错误，返回当前会话内该指纹的发生次数
+   */
+  private countOccurrence(fingerprint: string): number {
+    const sessionId = this.getSessionId?.();
+    if (sessionId !== this.sessionId) {
+      this.sessionId = sessionId;
+      this.occurrences.clear();
+    }
+
+    const occurrence = (this.occurrences.get(fingerprint) || 0) + 1;
+    this.occurrences.set(fingerprint, occurrence);
+    return occurrence;
+  }
+}
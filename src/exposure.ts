@@ -0,0 +1,228 @@
+import { DATA_ATTRIBUTES, DEFAULT_EXPOSURE_CONFIG, EventType } from './constants';
+import { ExposureConfig, ExposureProperties, SelectorConfig, TrackEvent } from './types';
+import { getElementSelector } from './selector';
+import { getCurrentTimestamp, getDataAttributeProperties, safeStringify } from './utils';
+
+/**
+ * 正在计时的曝光
+ */
+interface PendingExposure {
+  timerId: number;
+  startTime: number;
+  visibleRatio: number;
+}
+
+/**
+ * 曝光追踪器
+ * 通过 IntersectionObserver 监听带 data-argos-expose 属性的元素，
+ * 可见比例达到阈值并持续指定时长后上报，同一页面内相同的曝光只上报一次；
+ * 通过 MutationObserver 监听动态添加与移除的元素
+ */
+export class ExposureTracker {
+  private eventCallback: (event: TrackEvent) => void;
+  private threshold: number;
+  private minDuration: number;
+  private selectorConfig: SelectorConfig;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private mutationObserver: MutationObserver | null = null;
+  private pending = new Map<Element, PendingExposure>();
+  private reported = new Set<string>();
+  private pageUrl = '';
+
+  constructor(
+    eventCallback: (event: TrackEvent) => void,
+    config: ExposureConfig = {},
+    selectorConfig: SelectorConfig = {}
+  ) {
+    this.eventCallback = eventCallback;
+    this.selectorConfig = selectorConfig;
+    this.threshold = config.threshold ?? DEFAULT_EXPOSURE_CONFIG.threshold;
+    this.minDuration = config.minDuration ?? DEFAULT_EXPOSURE_CONFIG.minDuration;
+  }
+
+  /**
+   * 当前环境是否支持曝光追踪
+   */
+  static isSupported(): boolean {
+    return typeof IntersectionObserver !== 'undefined' && typeof MutationObserver !== 'undefined';
+  }
+
+  /**
+   * 开始追踪
+   */
+  start(): void {
+    if (this.intersectionObserver || !ExposureTracker.isSupported()) {
+      return;
+    }
+
+    this.pageUrl = window.location.href;
+    this.intersectionObserver = new IntersectionObserver(
+      entries => entries.forEach(entry => this.handleIntersection(entry)),
+      { threshold: [0, this.threshold] }
+    );
+
+    this.mutationObserver = new MutationObserver(mutations => this.handleMutations(mutations));
+    this.mutationObserver.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: [DATA_ATTRIBUTES.EXPOSE]
+    });
+
+    this.observeTree(document.documentElement);
+  }
+
+  /**
+   * 停止追踪
+   */
+  stop(): void {
+    this.intersectionObserver?.disconnect();
+    this.mutationObserver?.disconnect();
+    this.intersectionObserver = null;
+    this.mutationObserver = null;
+
+    this.pending.forEach(exposure => clearTimeout(exposure.timerId));
+    this.pending.clear();
+    this.reported.clear();
+  }
+
+  /**
+   * 处理元素可见性变化
+   */
+  private handleIntersection(entry: IntersectionObserverEntry): void {
+    const element = entry.target;
+    const visible = entry.isIntersecting && entry.intersectionRatio >= this.threshold;
+
+    if (!visible) {
+      this.cancelPending(element);
+      return;
+    }
+
+    if (this.pending.has(element)) {
+      return;
+    }
+
+    const timerId = window.setTimeout(() => this.report(element), this.minDuration);
+    this.pending.set(element, {
+      timerId,
+      startTime: getCurrentTimestamp(),
+      visibleRatio: entry.intersectionRatio
+    });
+  }
+
+  /**
+   * 处理 DOM 变化，追踪新增元素、释放被移除的元素
+   */
+  private handleMutations(mutations: MutationRecord[]): void {
+    mutations.forEach(mutation => {
+      if (mutation.type === 'attributes') {
+        const element = mutation.target as Element;
+        if (element.hasAttribute(DATA_ATTRIBUTES.EXPOSE)) {
+          this.intersectionObserver?.observe(element);
+        } else {
+          this.unobserve(element);
+        }
+        return;
+      }
+
+      mutation.addedNodes.forEach(node => {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          this.observeTree(node as Element);
+        }
+      });
+
+      mutation.removedNodes.forEach(node => {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          this.unobserveTree(node as Element);
+        }
+      });
+    });
+  }
+
+  /**
+   * 追踪元素及其后代中需要曝光的元素
+   */
+  private observeTree(root: Element): void {
+    this.findExposeElements(root).forEach(element => this.intersectionObserver?.observe(element));
+  }
+
+  /**
+   * 停止追踪元素及其后代
+   */
+  private unobserveTree(root: Element): void {
+    this.findExposeElements(root).forEach(element => this.unobserve(element));
+  }
+
+  /**
+   * 查找元素及其后代中带 data-argos-expose 属性的元素
+   */
+  private findExposeElements(root: Element): Element[] {
+    const selector = `[${DATA_ATTRIBUTES.EXPOSE}]`;
+    const elements = Array.from(root.querySelectorAll(selector));
+    return root.matches(selector) ? [root, ...elements] : elements;
+  }
+
+  /**
+   * 停止追踪单个元素
+   */
+  private unobserve(element: Element): void {
+    this.cancelPending(element);
+    this.intersectionObserver?.unobserve(element);
+  }
+
+  /**
+   * 取消正在计时的曝光
+   */
+  private cancelPending(element: Element): void {
+    const exposure = this.pending.get(element);
+    if (exposure) {
+      clearTimeout(exposure.timerId);
+      this.pending.delete(element);
+    }
+  }
+
+  /**
+   * 上报曝光事件
+   */
+  private report(element: Element): void {
+    const exposure = this.pending.get(element);
+    this.pending.delete(element);
+
+    const eventName = element.getAttribute(DATA_ATTRIBUTES.EXPOSE);
+    if (!exposure || !eventName || !element.isConnected) {
+      return;
+    }
+
+    // 页面变化后重新计算去重
+    if (window.location.href !== this.pageUrl) {
+      this.pageUrl = window.location.href;
+      this.reported.clear();
+    }
+
+    const dataProperties = getDataAttributeProperties(element);
+    const key = `${eventName}|${safeStringify(dataProperties)}`;
+    if (this.reported.has(key)) {
+      return;
+    }
+    this.reported.add(key);
+
+    const properties: ExposureProperties = {
+      ...dataProperties,
+      visibleRatio: Math.round(exposure.visibleRatio * 100) / 100,
+      duration: getCurrentTimestamp() - exposure.startTime
+    };
+
+    try {
+      properties.selector = getElementSelector(element, this.selectorConfig);
+    } catch (error) {
+      // 忽略选择器生成错误
+    }
+
+    this.eventCallback({
+      eventType: EventType.EXPOSURE,
+      eventName,
+      properties,
+      timestamp: getCurrentTimestamp()
+    });
+  }
+}
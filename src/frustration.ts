@@ -0,0 +1,255 @@
+import { DEAD_CLICK_SELECTOR, DEFAULT_FRUSTRATION_CONFIG, EventType } from './constants';
+import { FrustrationConfig, FrustrationProperties, SelectorConfig, TrackEvent } from './types';
+import { getElementSelector } from './selector';
+import { getCurrentTimestamp } from './utils';
+
+/**
+ * 最近一次点击
+ */
+interface ClickRecord {
+  target: Element;
+  clientX: number;
+  clientY: number;
+  timestamp: number;
+  /** performance.now() 时间，用于与资源加载时间比较 */
+  startTime: number;
+}
+
+/**
+ * 获取相对于页面加载的高精度时间
+ */
+function now(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+}
+
+/**
+ * 挫败点击检测器
+ * 狂点：时间窗口内在同一位置附近连续点击达到指定次数；
+ * 无效点击：点击链接、按钮等元素后，超时前没有 DOM 变化、页面跳转或网络请求；
+ * 报错点击：点击后时间窗口内出现 JavaScript 错误
+ */
+export class FrustrationDetector {
+  private eventCallback: (event: TrackEvent) => void;
+  private config: Required<FrustrationConfig>;
+  private selectorConfig: SelectorConfig;
+  private ignoreUrls: string[];
+  private mutationObserver: MutationObserver | null = null;
+  private recentClicks: ClickRecord[] = [];
+  private deadClickTimers = new Map<Element, number>();
+  private lastClick: ClickRecord | null = null;
+  private lastMutationTime = -1;
+  private isStarted = false;
+
+  constructor(
+    eventCallback: (event: TrackEvent) => void,
+    config: FrustrationConfig = {},
+    selectorConfig: SelectorConfig = {},
+    ignoreUrls: string[] = []
+  ) {
+    this.eventCallback = eventCallback;
+    this.selectorConfig = selectorConfig;
+    this.ignoreUrls = ignoreUrls.filter(Boolean);
+    this.config = {
+      rageClick: true,
+      deadClick: true,
+      errorClick: true,
+      ...DEFAULT_FRUSTRATION_CONFIG,
+      ...config
+    };
+  }
+
+  /**
+   * 开始检测
+   */
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+
+    if (this.config.deadClick && typeof MutationObserver !== 'undefined') {
+      this.mutationObserver = new MutationObserver(() => {
+        this.lastMutationTime = now();
+      });
+      this.mutationObserver.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true
+      });
+    }
+
+    if (this.config.errorClick) {
+      window.addEventListener('error', this.handleError);
+      window.addEventListener('unhandledrejection', this.handleRejection);
+    }
+  }
+
+  /**
+   * 停止检测
+   */
+  stop(): void {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+    window.removeEventListener('error', this.handleError);
+    window.removeEventListener('unhandledrejection', this.handleRejection);
+
+    this.deadClickTimers.forEach(timerId => clearTimeout(timerId));
+    this.deadClickTimers.clear();
+    this.recentClicks = [];
+    this.lastClick = null;
+  }
+
+  /**
+   * 处理点击，target 为已应用忽略规则并上溯到可交互元素后的点击目标
+   */
+  handleClick(target: Element, event: MouseEvent): void {
+    if (!this.isStarted) {
+      return;
+    }
+
+    const click: ClickRecord = {
+      target,
+      clientX: event.clientX,
+      clientY: event.clientY,
+      timestamp: getCurrentTimestamp(),
+      startTime: now()
+    };
+
+    this.lastClick = click;
+
+    if (this.config.rageClick) {
+      this.detectRageClick(click);
+    }
+
+    if (this.config.deadClick) {
+      this.watchDeadClick(click);
+    }
+  }
+
+  /**
+   * 检测狂点，达到次数后上报一次并重新计数
+   */
+  private detectRageClick(click: ClickRecord): void {
+    const { rageClickCount, rageClickRadius, rageClickWindow } = this.config;
+
+    this.recentClicks = this.recentClicks.filter(record => (
+      click.timestamp - record.timestamp <= rageClickWindow &&
+      Math.hypot(click.clientX - record.clientX, click.clientY - record.clientY) <= rageClickRadius
+    ));
+    this.recentClicks.push(click);
+
+    if (this.recentClicks.length >= rageClickCount) {
+      this.report(EventType.RAGE_CLICK, click, { clickCount: this.recentClicks.length });
+      this.recentClicks = [];
+    }
+  }
+
+  /**
+   * 点击后等待页面响应，同一元素同时只等待一次
+   */
+  private watchDeadClick(click: ClickRecord): void {
+    let target: Element | null = null;
+    try {
+      target = click.target.closest(DEAD_CLICK_SELECTOR);
+    } catch (error) {
+      return;
+    }
+
+    if (!target || this.deadClickTimers.has(target)) {
+      return;
+    }
+
+    const element = target;
+    const url = window.location.href;
+    const timerId = window.setTimeout(() => {
+      this.deadClickTimers.delete(element);
+      if (!this.hasActivitySince(click, url)) {
+        this.report(EventType.DEAD_CLICK, click, { timeout: this.config.deadClickTimeout });
+      }
+    }, this.config.deadClickTimeout);
+
+    this.deadClickTimers.set(element, timerId);
+  }
+
+  /**
+   * 点击后页面是否有响应：DOM 变化、页面跳转、切到后台(如新标签页打开链接)或发起网络请求
+   * 追踪器自身的上报请求(如点击事件的上报)不算作响应
+   */
+  private hasActivitySince(click: ClickRecord, url: string): boolean {
+    if (this.lastMutationTime >= click.startTime) {
+      return true;
+    }
+
+    if (window.location.href !== url || document.visibilityState === 'hidden') {
+      return true;
+    }
+
+    if (typeof performance !== 'undefined' && typeof performance.getEntriesByType === 'function') {
+      return performance.getEntriesByType('resource').some(entry => (
+        entry.startTime >= click.startTime && !this.ignoreUrls.some(url => entry.name.indexOf(url) === 0)
+      ));
+    }
+
+    return false;
+  }
+
+  /**
+   * 处理 JavaScript 错误
+   */
+  private handleError = (event: ErrorEvent): void => {
+    // 资源加载错误不冒泡到 window，这里只会收到脚本错误
+    this.detectErrorClick(event.message, 'javascript');
+  };
+
+  /**
+   * 处理未捕获的 Promise 异常
+   */
+  private handleRejection = (event: PromiseRejectionEvent): void => {
+    this.detectErrorClick(event.reason?.message || String(event.reason), 'promise');
+  };
+
+  /**
+   * 点击后时间窗口内出现错误时上报，每次点击只上报一次
+   */
+  private detectErrorClick(errorMessage: string, errorType: 'javascript' | 'promise'): void {
+    const click = this.lastClick;
+    if (!click || getCurrentTimestamp() - click.timestamp > this.config.errorClickWindow) {
+      return;
+    }
+
+    this.lastClick = null;
+    this.report(EventType.ERROR_CLICK, click, { errorMessage, errorType });
+  }
+
+  /**
+   * 上报挫败点击事件
+   */
+  private report(eventType: EventType, click: ClickRecord, extra: Partial<FrustrationProperties>): void {
+    const properties: FrustrationProperties = {
+      tagName: click.target.localName,
+      clientX: click.clientX,
+      clientY: click.clientY,
+      ...extra
+    };
+
+    try {
+      properties.selector = getElementSelector(click.target, this.selectorConfig);
+    } catch (error) {
+      // 忽略选择器生成错误
+    }
+
+    this.eventCallback({
+      eventType,
+      eventName: eventType,
+      properties,
+      timestamp: getCurrentTimestamp()
+    });
+  }
+}
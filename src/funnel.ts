@@ -0,0 +1,175 @@
+import { EventType } from './constants';
+import { StorageManager } from './storage';
+import { FunnelAbandonReason, FunnelDefinition, FunnelProperties, FunnelState, TrackEvent } from './types';
+import { generateUUID, getCurrentTimestamp } from './utils';
+
+/**
+ * 漏斗依赖的追踪器能力
+ */
+export interface FunnelContext {
+  storage: StorageManager;
+  /** 上报事件 */
+  track: (event: TrackEvent) => void;
+  /** 获取当前会话ID */
+  getSessionId: () => string;
+  /** 输出调试日志 */
+  log: (message: string, ...args: any[]) => void;
+}
+
+/**
+ * 创建漏斗放弃事件
+ */
+export function createFunnelAbandonEvent(
+  funnelName: string,
+  state: FunnelState,
+  reason: FunnelAbandonReason,
+  timestamp = getCurrentTimestamp()
+): TrackEvent {
+  const properties: FunnelProperties = {
+    funnelName,
+    funnelId: state.funnelId,
+    stepName: state.lastStep,
+    stepIndex: state.stepIndex,
+    stepCount: state.stepCount,
+    reason
+  };
+
+  return {
+    eventType: EventType.FUNNEL,
+    eventName: 'funnel_abandon',
+    properties,
+    sessionId: state.sessionId,
+    duration: state.lastStepTime - state.startTime,
+    timestamp
+  };
+}
+
+/**
+ * 漏斗
+ * 按定义的步骤顺序记录转化过程，步骤事件附带漏斗ID、步骤序号与距上一步的时长，
+ * 并标记跳过的步骤与乱序的步骤；进度保存在本地存储中，刷新页面后继续
+ */
+export class Funnel {
+  readonly name: string;
+  readonly steps: string[];
+  private context: FunnelContext;
+
+  constructor(definition: FunnelDefinition, context: FunnelContext) {
+    this.name = definition.name;
+    this.steps = [...definition.steps];
+    this.context = context;
+  }
+
+  /**
+   * 记录一个步骤
+   * 第一步会开始新的漏斗(已进行到后续步骤时先以 restart 原因放弃当前漏斗)，到达最后一步时上报 funnel_complete
+   */
+  step(stepName: string, properties?: Record<string, any>): void {
+    const stepIndex = this.steps.indexOf(stepName);
+    if (stepIndex === -1) {
+      this.context.log(`Unknown step "${stepName}" in funnel:`, this.name);
+      return;
+    }
+
+    // 先获取会话ID，会话已超时时由会话结束处理放弃旧进度
+    const sessionId = this.context.getSessionId();
+    const now = getCurrentTimestamp();
+    let state = this.getState();
+
+    // 其他会话的进度不再延续
+    if (state && state.sessionId !== sessionId) {
+      this.abandon('session_end');
+      state = null;
+    }
+
+    if (state && stepIndex === 0 && state.stepIndex > 0) {
+      this.abandon('restart');
+      state = null;
+    }
+
+    const funnelProperties: FunnelProperties = {
+      funnelName: this.name,
+      funnelId: state ? state.funnelId : generateUUID(),
+      stepName,
+      stepIndex,
+      stepCount: this.steps.length
+    };
+
+    const previousIndex = state ? state.stepIndex : -1;
+    if (stepIndex > previousIndex + 1) {
+      funnelProperties.skippedSteps = this.steps.slice(previousIndex + 1, stepIndex);
+    } else if (stepIndex < previousIndex) {
+      funnelProperties.outOfOrder = true;
+    }
+
+    if (state) {
+      funnelProperties.timeSincePreviousStep = now - state.lastStepTime;
+    }
+
+    const nextState: FunnelState = {
+      funnelId: funnelProperties.funnelId,
+      sessionId,
+      stepIndex: Math.max(stepIndex, previousIndex),
+      lastStep: stepName,
+      stepCount: this.steps.length,
+      startTime: state ? state.startTime : now,
+      lastStepTime: now
+    };
+
+    this.context.track({
+      eventType: EventType.FUNNEL,
+      eventName: 'funnel_step',
+      properties: { ...properties, ...funnelProperties },
+      timestamp: now
+    });
+
+    if (stepIndex < this.steps.length - 1) {
+      this.context.storage.setFunnelState(this.name, nextState);
+      return;
+    }
+
+    const completeProperties: FunnelProperties = {
+      funnelName: this.name,
+      funnelId: nextState.funnelId,
+      stepName,
+      stepIndex,
+      stepCount: this.steps.length
+    };
+
+    this.context.storage.setFunnelState(this.name, null);
+    this.context.track({
+      eventType: EventType.FUNNEL,
+      eventName: 'funnel_complete',
+      properties: completeProperties,
+      duration: now - nextState.startTime,
+      timestamp: now
+    });
+  }
+
+  /**
+   * 放弃进行中的漏斗并上报 funnel_abandon
+   */
+  abandon(reason: FunnelAbandonReason = 'manual'): void {
+    const state = this.getState();
+    if (!state) {
+      return;
+    }
+
+    this.context.storage.setFunnelState(this.name, null);
+    this.context.track(createFunnelAbandonEvent(this.name, state, reason));
+  }
+
+  /**
+   * 清除进度，不上报事件
+   */
+  reset(): void {
+    this.context.storage.setFunnelState(this.name, null);
+  }
+
+  /**
+   * 获取当前进度，未进入漏斗时返回 null
+   */
+  getState(): FunnelState | null {
+    return this.context.storage.getFunnelStates()[this.name] || null;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * 路由变化监听器
+ */
+type HistoryListener = () => void;
+
+const listeners = new Set<HistoryListener>();
+let originalPushState: History['pushState'] | null = null;
+let originalReplaceState: History['replaceState'] | null = null;
+let patchedPushState: History['pushState'] | null = null;
+let patchedReplaceState: History['replaceState'] | null = null;
+
+/**
+ * 通知所有监听器，监听器内取消监听不影响本次通知
+ */
+function notify(): void {
+  Array.from(listeners).forEach(listener => listener());
+}
+
+/**
+ * 替换 pushState 和 replaceState 以捕获程序化路由变化
+ * 上次的替换函数仍在其他代码的替换链中时不再重复替换，避免同一次路由变化通知多次
+ */
+function patchHistory(): void {
+  window.addEventListener('popstate', notify);
+  window.addEventListener('hashchange', notify);
+
+  if (patchedPushState) {
+    return;
+  }
+
+  const pushState = history.pushState;
+  const replaceState = history.replaceState;
+  originalPushState = pushState;
+  originalReplaceState = replaceState;
+
+  patchedPushState = function(...args) {
+    pushState.apply(history, args);
+    notify();
+  };
+  patchedReplaceState = function(...args) {
+    replaceState.apply(history, args);
+    notify();
+  };
+
+  history.pushState = patchedPushState;
+  history.replaceState = patchedReplaceState;
+}
+
+/**
+ * 还原 pushState 和 replaceState
+ * 之后其他代码又替换了这两个方法时保留替换链，不覆盖对方的替换
+ */
+function restoreHistory(): void {
+  window.removeEventListener('popstate', notify);
+  window.removeEventListener('hashchange', notify);
+
+  if (history.pushState !== patchedPushState || history.replaceState !== patchedReplaceState) {
+    return;
+  }
+
+  history.pushState = originalPushState as History['pushState'];
+  history.replaceState = originalReplaceState as History['replaceState'];
+  originalPushState = null;
+  originalReplaceState = null;
+  patchedPushState = null;
+  patchedReplaceState = null;
+}
+
+/**
+ * 监听路由变化(pushState、replaceState、popstate 与 hashchange)，返回取消监听的函数
+ * 页面访问采集与面包屑共享同一次 history 方法替换，最后一个监听取消后才还原，
+ * 各模块按任意顺序启停都不会留下失效的替换函数
+ */
+export function onHistoryChange(listener: HistoryListener): () => void {
+  const subscription = () => listener();
+  listeners.add(subscription);
+  if (listeners.size === 1) {
+    patchHistory();
+  }
+
+  return () => {
+    if (!listeners.delete(subscription)) {
+      return;
+    }
+
+    if (listeners.size === 0) {
+      restoreHistory();
+    }
+  };
+}
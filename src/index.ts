@@ -1,6 +1,58 @@
 export { ArgosTracker } from './tracker';
-export { TrackerConfig, TrackEvent, UserInfo } from './types';
-export { EventType, ReportMethod } from './constants';
+export {
+  TrackerConfig,
+  TrackEvent,
+  UserInfo,
+  TrackOptions,
+  PerformanceProperties,
+  OfflineQueueConfig,
+  PendingEvent,
+  QueueBackend,
+  EventMiddleware,
+  MiddlewareOptions,
+  ArgosPlugin,
+  PluginTracker,
+  EventSchemaMap,
+  SchemaConfig,
+  EventDefinition,
+  PropertyRule,
+  SchemaViolation,
+  FunnelDefinition,
+  FunnelState,
+  FunnelProperties,
+  FunnelAbandonReason,
+  SessionConfig,
+  ConsentConfig,
+  ConsentCategory,
+  ConsentState,
+  SamplingConfig,
+  Transport,
+  TransportName,
+  TransportRequest,
+  ReportResult,
+  PayloadFormat,
+  PayloadSerializer,
+  CompressionConfig,
+  DestinationConfig,
+  ExposureConfig,
+  ExposureProperties,
+  ClickConfig,
+  SelectorConfig,
+  FrustrationConfig,
+  FrustrationProperties,
+  ErrorConfig,
+  ErrorProperties,
+  StackFrame,
+  Breadcrumb,
+  BreadcrumbType,
+  ApiConfig
+} from './types';
+export { EventType, ReportMethod, BUILTIN_PLUGINS } from './constants';
+export { Funnel } from './funnel';
+export { PageViewPlugin, ClickPlugin, ExposurePlugin, ErrorPlugin, PerformancePlugin } from './collector';
+export { IndexedDBQueueBackend, LocalStorageQueueBackend, MemoryQueueBackend } from './queue';
+export { FetchTransport, XhrTransport, BeaconTransport, ImageTransport } from './transport';
+export { DefaultSerializer, JsonSerializer, NdjsonSerializer, SegmentSerializer } from './serializer';
 
 // 默认导出，方便直接使用
 import { ArgosTracker } from './tracker';
@@ -0,0 +1,143 @@
+import { EventType } from './constants';
+import { EventMiddleware, MiddlewareOptions, TrackEvent } from './types';
+
+/**
+ * 中间件注册项
+ */
+interface MiddlewareEntry {
+  middleware: EventMiddleware;
+  eventTypes?: EventType[];
+}
+
+/**
+ * 判断是否为 Promise
+ */
+function isPromise<T>(value: any): value is Promise<T> {
+  return !!value && typeof value.then === 'function';
+}
+
+/**
+ * 事件中间件管道
+ * 按注册顺序依次执行中间件；全部为同步中间件时同步完成，
+ * 出现异步中间件后，后续事件排队等待，保证入队顺序与触发顺序一致
+ */
+export class MiddlewarePipeline {
+  private entries: MiddlewareEntry[] = [];
+  private pending: Promise<void> = Promise.resolve();
+  private pendingCount = 0;
+
+  /**
+   * 注册中间件，返回取消注册的函数
+   */
+  use(middleware: EventMiddleware, options: MiddlewareOptions = {}): () => void {
+    this.entries.push({ middleware, eventTypes: options.eventTypes });
+    return () => this.remove(middleware);
+  }
+
+  /**
+   * 移除中间件
+   */
+  remove(middleware: EventMiddleware): void {
+    this.entries = this.entries.filter(entry => entry.middleware !== middleware);
+  }
+
+  /**
+   * 处理事件，未被丢弃的事件交给 next
+   */
+  process(event: TrackEvent, next: (event: TrackEvent) => void): void {
+    if (this.pendingCount === 0) {
+      const result = this.run(event, 0);
+
+      if (!isPromise<TrackEvent | null>(result)) {
+        if (result) {
+          next(result);
+        }
+        return;
+      }
+
+      this.enqueue(() => result, next);
+      return;
+    }
+
+    this.enqueue(() => this.run(event, 0), next);
+  }
+
+  /**
+   * 等待所有异步处理完成
+   */
+  whenIdle(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * 将事件处理加入异步队列
+   */
+  private enqueue(
+    task: () => TrackEvent | null | Promise<TrackEvent | null>,
+    next: (event: TrackEvent) => void
+  ): void {
+    this.pendingCount++;
+    this.pending = this.pending
+      .then(task)
+      .then(result => {
+        if (result) {
+          next(result);
+        }
+      })
+      .catch(error => {
+        console.warn('[ArgosTracker] Event middleware pipeline failed:', error);
+      })
+      .then(() => {
+        this.pendingCount--;
+      });
+  }
+
+  /**
+   * 从指定位置开始执行中间件，遇到异步中间件后转为异步执行
+   */
+  private run(event: TrackEvent, startIndex: number): TrackEvent | null | Promise<TrackEvent | null> {
+    let current = event;
+
+    for (let i = startIndex; i < this.entries.length; i++) {
+      const { middleware, eventTypes } = this.entries[i];
+
+      if (eventTypes && !eventTypes.includes(current.eventType)) {
+        continue;
+      }
+
+      let result: ReturnType<EventMiddleware>;
+      try {
+        result = middleware(current);
+      } catch (error) {
+        // 中间件异常时保留原事件，避免数据丢失
+        console.warn('[ArgosTracker] Event middleware error:', error);
+        continue;
+      }
+
+      if (isPromise<TrackEvent | null | void>(result)) {
+        const snapshot = current;
+        return result
+          .catch(error => {
+            console.warn('[ArgosTracker] Event middleware error:', error);
+            return undefined;
+          })
+          .then(resolved => {
+            if (resolved === null) {
+              return null;
+            }
+            return this.run(resolved || snapshot, i + 1);
+          });
+      }
+
+      if (result === null) {
+        return null;
+      }
+
+      if (result) {
+        current = result;
+      }
+    }
+
+    return current;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * 一次网络请求的结果
+ */
+export interface NetworkRequest {
+  /** 请求方式 */
+  method: string;
+  /** 请求地址(不含查询参数与 hash) */
+  url: string;
+  /** 响应状态码，网络错误或超时为 0 */
+  status: number;
+  /** 请求耗时(ms) */
+  duration: number;
+  /** 状态码是否为 2xx */
+  ok: boolean;
+  /** 网络错误信息 */
+  error?: string;
+  initiatorType: 'fetch' | 'xmlhttprequest';
+}
+
+/**
+ * fetch 的参数类型
+ */
+type FetchInput = Parameters<typeof fetch>[0];
+type FetchInit = Parameters<typeof fetch>[1];
+
+/**
+ * XHR 请求信息
+ */
+interface XhrState {
+  method: string;
+  url: string;
+}
+
+/**
+ * 转为不含查询参数与 hash 的绝对地址
+ */
+export function stripUrl(url: string): string {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch (error) {
+    return url.replace(/[?#].*$/, '');
+  }
+}
+
+/**
+ * 获取 fetch 请求的地址
+ */
+function getFetchUrl(input: FetchInput): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+
+  return input instanceof URL ? input.href : input.url;
+}
+
+/**
+ * 获取 fetch 请求的方式
+ */
+function getFetchMethod(input: FetchInput, init?: FetchInit): string {
+  const method = init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+  return method.toUpperCase();
+}
+
+/**
+ * 网络请求监控
+ * 替换 window.fetch 与 XMLHttpRequest 的 open/send，在请求结束时回调请求结果；
+ * 匹配 ignoreUrls 的请求(如追踪器自身的上报请求)不回调，stop 时还原原生方法
+ */
+export class NetworkInstrumentation {
+  private handler: (request: NetworkRequest) => void;
+  private ignoreUrls: (string | RegExp)[];
+  private cleanups: (() => void)[] = [];
+
+  constructor(handler: (request: NetworkRequest) => void, ignoreUrls: (string | RegExp)[] = []) {
+    this.handler = handler;
+    this.ignoreUrls = ignoreUrls
+      .filter(Boolean)
+      .map(pattern => (typeof pattern === 'string' ? stripUrl(pattern) : pattern));
+  }
+
+  /**
+   * 开始监控
+   */
+  start(): void {
+    if (this.cleanups.length > 0) {
+      return;
+    }
+
+    this.instrumentFetch();
+    this.instrumentXhr();
+  }
+
+  /**
+   * 停止监控并还原原生方法
+   */
+  stop(): void {
+    this.cleanups.reverse().forEach(cleanup => cleanup());
+    this.cleanups = [];
+  }
+
+  /**
+   * 是否忽略该地址的请求
+   */
+  private isIgnored(url: string): boolean {
+    return this.ignoreUrls.some(pattern => (
+      typeof pattern === 'string' ? url.indexOf(pattern) === 0 : pattern.test(url)
+    ));
+  }
+
+  /**
+   * 回调请求结果，回调中的异常不影响页面请求
+   */
+  private emit(request: NetworkRequest): void {
+    try {
+      this.handler(request);
+    } catch (error) {
+      // 忽略回调异常
+    }
+  }
+
+  /**
+   * 替换 window.fetch
+   */
+  private instrumentFetch(): void {
+    if (typeof window.fetch !== 'function') {
+      return;
+    }
+
+    const originalFetch = window.fetch;
+
+    window.fetch = (input: FetchInput, init?: FetchInit): Promise<Response> => {
+      const url = stripUrl(getFetchUrl(input));
+      if (this.isIgnored(url)) {
+        return originalFetch.call(window, input, init);
+      }
+
+      const method = getFetchMethod(input, init);
+      const startTime = Date.now();
+
+      return originalFetch.call(window, input, init).then(
+        response => {
+          this.emit({
+            method,
+            url,
+            status: response.status,
+            duration: Date.now() - startTime,
+            // no-cors 请求的响应不透明，无法得知是否成功
+            ok: response.ok || response.type === 'opaque',
+            initiatorType: 'fetch'
+          });
+          return response;
+        },
+        error => {
+          // 主动取消的请求不视为错误
+          if (error?.name !== 'AbortError') {
+            this.emit({
+              method,
+              url,
+              status: 0,
+              duration: Date.now() - startTime,
+              ok: false,
+              error: error?.message || String(error),
+              initiatorType: 'fetch'
+            });
+          }
+          throw error;
+        }
+      );
+    };
+
+    this.cleanups.push(() => {
+      window.fetch = originalFetch;
+    });
+  }
+
+  /**
+   * 替换 XMLHttpRequest 的 open 与 send
+   */
+  private instrumentXhr(): void {
+    if (typeof XMLHttpRequest === 'undefined') {
+      return;
+    }
+
+    const prototype = XMLHttpRequest.prototype;
+    const originalOpen = prototype.open;
+    const originalSend = prototype.send;
+    const states = new WeakMap<XMLHttpRequest, XhrState>();
+    const instrumentation = this;
+
+    prototype.open = function(this: XMLHttpRequest, method: string, url: string | URL, ...args: any[]) {
+      states.set(this, { method: String(method).toUpperCase(), url: stripUrl(String(url)) });
+      return (originalOpen as (...params: any[]) => void).apply(this, [method, url, ...args]);
+    };
+
+    prototype.send = function(this: XMLHttpRequest, body?: Parameters<XMLHttpRequest['send']>[0]) {
+      const state = states.get(this);
+
+      if (state && !instrumentation.isIgnored(state.url)) {
+        const startTime = Date.now();
+        let outcome: string | undefined;
+
+        const handleFailure = (event: Event) => {
+          outcome = event.type;
+        };
+
+        const handleLoadEnd = () => {
+          this.removeEventListener('error', handleFailure);
+          this.removeEventListener('timeout', handleFailure);
+          this.removeEventListener('abort', handleFailure);
+          this.removeEventListener('loadend', handleLoadEnd);
+
+          // 主动取消的请求不视为错误
+          if (outcome === 'abort') {
+            return;
+          }
+
+          instrumentation.emit({
+            method: state.method,
+            url: state.url,
+            status: this.status,
+            duration: Date.now() - startTime,
+            ok: this.status >= 200 && this.status < 300,
+            error: outcome ? `XMLHttpRequest ${outcome}` : undefined,
+            initiatorType: 'xmlhttprequest'
+          });
+        };
+
+        this.addEventListener('error', handleFailure);
+        this.addEventListener('timeout', handleFailure);
+        this.addEventListener('abort', handleFailure);
+        this.addEventListener('loadend', handleLoadEnd);
+      }
+
+      return originalSend.call(this, body);
+    };
+
+    this.cleanups.push(() => {
+      prototype.open = originalOpen;
+      prototype.send = originalSend;
+    });
+  }
+}
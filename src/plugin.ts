@@ -0,0 +1,120 @@
+import { MiddlewarePipeline } from './middleware';
+import { ArgosPlugin, PluginTracker, ReportResult, TrackEvent } from './types';
+
+/**
+ * 插件注册项
+ */
+interface PluginEntry {
+  plugin: ArgosPlugin;
+  removeMiddleware?: () => void;
+}
+
+/**
+ * 插件注册表
+ * 负责插件的安装与卸载，beforeSend 钩子注册到事件中间件管道，afterSend 钩子在上报完成后依次调用
+ */
+export class PluginRegistry {
+  private entries: PluginEntry[] = [];
+  private middlewares: MiddlewarePipeline;
+
+  constructor(middlewares: MiddlewarePipeline) {
+    this.middlewares = middlewares;
+  }
+
+  /**
+   * 是否已注册同名插件
+   */
+  has(name: string): boolean {
+    return this.entries.some(entry => entry.plugin.name === name);
+  }
+
+  /**
+   * 安装插件，同名插件已注册或 setup 失败时返回 false
+   */
+  add(plugin: ArgosPlugin, tracker: PluginTracker): boolean {
+    if (this.has(plugin.name)) {
+      return false;
+    }
+
+    try {
+      plugin.setup(tracker);
+    } catch (error) {
+      console.warn('[ArgosTracker] Plugin setup failed:', plugin.name, error);
+      // 清理 setup 中已完成的部分
+      this.teardown(plugin);
+      return false;
+    }
+
+    const entry: PluginEntry = { plugin };
+    if (plugin.beforeSend) {
+      entry.removeMiddleware = this.middlewares.use(plugin.beforeSend.bind(plugin));
+    }
+
+    this.entries.push(entry);
+    return true;
+  }
+
+  /**
+   * 卸载插件，传入插件实例时仅在该实例仍处于注册状态时卸载
+   */
+  remove(target: string | ArgosPlugin): void {
+    const entry = this.entries.find(item =>
+      typeof target === 'string' ? item.plugin.name === target : item.plugin === target
+    );
+    if (!entry) {
+      return;
+    }
+
+    this.entries = this.entries.filter(item => item !== entry);
+    entry.removeMiddleware?.();
+    this.teardown(entry.plugin);
+  }
+
+  /**
+   * 按注册的相反顺序卸载全部插件
+   */
+  clear(): void {
+    const entries = this.entries;
+    this.entries = [];
+
+    entries.reverse().forEach(entry => {
+      entry.removeMiddleware?.();
+      this.teardown(entry.plugin);
+    });
+  }
+
+  /**
+   * 获取已注册的插件名称
+   */
+  getNames(): string[] {
+    return this.entries.map(entry => entry.plugin.name);
+  }
+
+  /**
+   * 通知插件一批事件已上报完成
+   */
+  afterSend(events: TrackEvent[], result: ReportResult, destination: string): void {
+    this.entries.forEach(({ plugin }) => {
+      if (!plugin.afterSend) {
+        return;
+      }
+
+      try {
+        plugin.afterSend(events, result, destination);
+      } catch (error) {
+        console.warn('[ArgosTracker] Plugin afterSend error:', plugin.name, error);
+      }
+    });
+  }
+
+  /**
+   * 调用插件的 teardown，异常不影响其他插件
+   */
+  private teardown(plugin: ArgosPlugin): void {
+    try {
+      plugin.teardown();
+    } catch (error) {
+      console.warn('[ArgosTracker] Plugin teardown failed:', plugin.name, error);
+    }
+  }
+}
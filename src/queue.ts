@@ -0,0 +1,389 @@
+import { DEFAULT_OFFLINE_QUEUE_CONFIG, EVENT_PRIORITY, INDEXED_DB_CONFIG, STORAGE_KEYS, TAB_COORDINATION } from './constants';
+import { OfflineQueueConfig, PendingEvent, QueueBackend, TrackEvent } from './types';
+import { runExclusive } from './coordination';
+import { getCurrentTimestamp, safeParse, safeStringify } from './utils';
+
+let recordCounter = 0;
+
+/**
+ * 生成按写入顺序递增的记录ID
+ */
+function createRecordId(): string {
+  recordCounter = (recordCounter + 1) % 1679616;
+  const time = getCurrentTimestamp().toString(36).padStart(9, '0');
+  const counter = recordCounter.toString(36).padStart(4, '0');
+  const random = Math.random().toString(36).substring(2, 8);
+  return `${time}-${counter}-${random}`;
+}
+
+/**
+ * 按写入顺序排序
+ */
+function sortRecords(records: PendingEvent[]): PendingEvent[] {
+  return records.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * 判断是否为存储空间不足错误
+ */
+function isQuotaError(error: any): boolean {
+  return !!error && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+}
+
+/**
+ * 内存存储后端
+ */
+export class MemoryQueueBackend implements QueueBackend {
+  readonly name = 'memory';
+  private records: PendingEvent[] = [];
+
+  async getAll(): Promise<PendingEvent[]> {
+    return [...this.records];
+  }
+
+  async add(records: PendingEvent[]): Promise<void> {
+    this.records = sortRecords([...this.records, ...records]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    this.records = this.records.filter(record => !idSet.has(record.id));
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+  }
+}
+
+/**
+ * localStorage 存储后端
+ */
+export class LocalStorageQueueBackend implements QueueBackend {
+  readonly name = 'localstorage';
+  private key: string;
+
+  constructor(key: string = STORAGE_KEYS.PENDING_EVENTS) {
+    this.key = key;
+  }
+
+  async getAll(): Promise<PendingEvent[]> {
+    return this.read();
+  }
+
+  // 读取与写入在同一个同步调用中完成，缩小其他标签页写入的竞争窗口
+  async add(records: PendingEvent[]): Promise<void> {
+    this.write([...this.read(), ...records]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    this.write(this.read().filter(record => !idSet.has(record.id)));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+
+  /**
+   * 读取全部记录
+   */
+  private read(): PendingEvent[] {
+    const value = localStorage.getItem(this.key);
+    const items = value ? safeParse<any[]>(value, []) : [];
+    const isRecord = (item: any) => !!item && !!item.id && !!item.event;
+    const records = sortRecords(items.map(item => (isRecord(item) ? item : createRecord(item))));
+
+    // 兼容旧版本直接存储 TrackEvent 数组的格式，转换后立即写回，记录ID在后续读取与移除时保持不变
+    if (!items.every(isRecord)) {
+      try {
+        this.write(records);
+      } catch (error) {
+        // 写回失败时本次仍返回转换后的记录
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * 写入全部记录，空间不足时抛出异常由队列处理
+   */
+  private write(records: PendingEvent[]): void {
+    if (records.length === 0) {
+      localStorage.removeItem(this.key);
+      return;
+    }
+
+    localStorage.setItem(this.key, safeStringify(sortRecords(records)));
+  }
+}
+
+/**
+ * IndexedDB 存储后端
+ */
+export class IndexedDBQueueBackend implements QueueBackend {
+  readonly name = 'indexeddb';
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = INDEXED_DB_CONFIG.DB_NAME, storeName: string = INDEXED_DB_CONFIG.STORE_NAME) {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async getAll(): Promise<PendingEvent[]> {
+    const records = await this.transaction<PendingEvent[]>('readonly', store => store.getAll());
+    return sortRecords(records || []);
+  }
+
+  async add(records: PendingEvent[]): Promise<void> {
+    await this.transaction('readwrite', store => {
+      records.forEach(record => store.put(record));
+    });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.transaction('readwrite', store => {
+      ids.forEach(id => store.delete(id));
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction('readwrite', store => store.clear());
+  }
+
+  /**
+   * 打开数据库
+   */
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, INDEXED_DB_CONFIG.VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+      });
+
+      // 打开失败时允许下次重试
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * 在事务中执行操作，事务完成后返回请求结果
+   */
+  private async transaction<T = undefined>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IDBObjectStore) => IDBRequest<any> | void
+  ): Promise<T | undefined> {
+    const db = await this.getDB();
+
+    return new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * 创建缓存记录
+ */
+function createRecord(event: TrackEvent, destination?: string): PendingEvent {
+  return {
+    id: createRecordId(),
+    ...(destination ? { destination } : {}),
+    event,
+    priority: EVENT_PRIORITY[event.eventType] || 0,
+    size: safeStringify(event).length,
+    createdAt: getCurrentTimestamp()
+  };
+}
+
+/**
+ * 根据配置创建存储后端
+ */
+export function createQueueBackend(storage?: OfflineQueueConfig['storage']): QueueBackend {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+
+  const hasIndexedDB = typeof indexedDB !== 'undefined';
+  const hasLocalStorage = typeof window !== 'undefined' && !!window.localStorage;
+
+  if ((storage === undefined || storage === 'indexeddb') && hasIndexedDB) {
+    return new IndexedDBQueueBackend();
+  }
+
+  if (storage !== 'memory' && hasLocalStorage) {
+    return new LocalStorageQueueBackend();
+  }
+
+  return new MemoryQueueBackend();
+}
+
+/**
+ * 离线缓存队列
+ * 负责容量控制与淘汰，具体读写交给存储后端；多个标签页共享同一份缓存，读写操作互斥执行
+ */
+export class PendingEventQueue {
+  private backend: QueueBackend;
+  private maxEvents: number;
+  private maxBytes: number;
+  private evictionPolicy: 'oldest' | 'priority';
+
+  constructor(config: OfflineQueueConfig = {}) {
+    this.backend = createQueueBackend(config.storage);
+    this.maxEvents = config.maxEvents ?? DEFAULT_OFFLINE_QUEUE_CONFIG.maxEvents;
+    this.maxBytes = config.maxBytes ?? DEFAULT_OFFLINE_QUEUE_CONFIG.maxBytes;
+    this.evictionPolicy = config.evictionPolicy || DEFAULT_OFFLINE_QUEUE_CONFIG.evictionPolicy;
+  }
+
+  /**
+   * 获取当前存储后端名称
+   */
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * 写入事件，返回实际写入的记录ID
+   */
+  async save(events: TrackEvent[], destination?: string): Promise<string[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    return this.run(async backend => {
+      const existing = await backend.getAll();
+      const incoming = events.map(event => createRecord(event, destination));
+      const evicted = this.selectEvictions([...existing, ...incoming]);
+      const evictedExisting = existing.filter(record => evicted.has(record.id)).map(record => record.id);
+      const accepted = incoming.filter(record => !evicted.has(record.id));
+
+      if (evictedExisting.length > 0) {
+        await backend.remove(evictedExisting);
+      }
+
+      try {
+        await backend.add(accepted);
+      } catch (error) {
+        if (!isQuotaError(error)) {
+          throw error;
+        }
+
+        // 空间不足时淘汰较早的一半缓存后重试一次
+        const remaining = existing.filter(record => !evicted.has(record.id));
+        await backend.remove(remaining.slice(0, Math.ceil(remaining.length / 2)).map(record => record.id));
+        await backend.add(accepted);
+      }
+
+      return accepted.map(record => record.id);
+    }, []);
+  }
+
+  /**
+   * 读取全部待上报记录
+   */
+  async getAll(): Promise<PendingEvent[]> {
+    return this.run(backend => backend.getAll(), []);
+  }
+
+  /**
+   * 按ID确认移除记录
+   */
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.run(backend => backend.remove(ids), undefined);
+  }
+
+  /**
+   * 清空队列
+   */
+  async clear(): Promise<void> {
+    await this.run(backend => backend.clear(), undefined);
+  }
+
+  /**
+   * 计算超出容量时需要淘汰的记录
+   */
+  private selectEvictions(records: PendingEvent[]): Set<string> {
+    const evicted = new Set<string>();
+    let count = records.length;
+    let bytes = records.reduce((total, record) => total + record.size, 0);
+
+    if (count <= this.maxEvents && bytes <= this.maxBytes) {
+      return evicted;
+    }
+
+    const candidates = sortRecords([...records]);
+    if (this.evictionPolicy === 'priority') {
+      candidates.sort((a, b) => a.priority - b.priority);
+    }
+
+    for (const record of candidates) {
+      if (count <= this.maxEvents && bytes <= this.maxBytes) {
+        break;
+      }
+
+      evicted.add(record.id);
+      count--;
+      bytes -= record.size;
+    }
+
+    return evicted;
+  }
+
+  /**
+   * 独占执行后端操作，避免多个标签页同时读改写
+   */
+  private run<T>(operation: (backend: QueueBackend) => Promise<T>, defaultValue: T): Promise<T> {
+    return runExclusive(TAB_COORDINATION.QUEUE_LOCK, () => this.runWithFallback(operation, defaultValue));
+  }
+
+  /**
+   * 执行后端操作，IndexedDB 不可用时降级到 localStorage 或内存
+   */
+  private async runWithFallback<T>(operation: (backend: QueueBackend) => Promise<T>, defaultValue: T): Promise<T> {
+    try {
+      return await operation(this.backend);
+    } catch (error) {
+      console.warn(`[ArgosTracker] Offline queue (${this.backend.name}) operation failed:`, error);
+
+      if (!(this.backend instanceof IndexedDBQueueBackend)) {
+        return defaultValue;
+      }
+
+      this.backend = createQueueBackend('localstorage');
+
+      try {
+        return await operation(this.backend);
+      } catch (fallbackError) {
+        console.warn(`[ArgosTracker] Offline queue (${this.backend.name}) operation failed:`, fallbackError);
+        return defaultValue;
+      }
+    }
+  }
+}
@@ -1,142 +1,226 @@
-import { ReportMethod } from './constants';
-import { TrackerConfig, TrackEvent } from './types';
-import { safeStringify } from './utils';
+import { DEFAULT_COMPRESSION_CONFIG, DEFAULT_RETRY_CONFIG, ReportMethod } from './constants';
+import { PayloadSerializer, ReportResult, TrackerConfig, TrackEvent, Transport, TransportRequest } from './types';
+import { createTransport } from './transport';
+import { createSerializer } from './serializer';
+import { gzip, isCompressionSupported } from './compression';
+import { getByteLength } from './utils';
+
+/**
+ * 判断当前是否处于离线状态
+ */
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
 
 /**
  * 网络上报器
  */
 export class Reporter {
   private config: TrackerConfig;
+  private retryTimers = new Map<number, () => void>();
+  private customTransports: Transport[] = [];
+  private serializer: PayloadSerializer;
 
   constructor(config: TrackerConfig) {
     this.config = config;
+    this.serializer = createSerializer(config.payloadFormat);
   }
 
   /**
-   * 上报事件
+   * 上报事件，可指定本次使用的上报方式(如页面卸载时使用 beacon)
+   * onRetry 在每次进入退避等待前调用
    */
-  async report(events: TrackEvent[]): Promise<boolean> {
+  async report(
+    events: TrackEvent[],
+    reportMethod = this.config.reportMethod,
+    onRetry?: () => void
+  ): Promise<ReportResult> {
     if (!events.length) {
-      return true;
+      return { success: true, retryable: false };
     }
 
-    const { reportMethod } = this.config;
-
     try {
       switch (reportMethod) {
         case ReportMethod.BEACON:
-          return await this.sendBeacon(events);
+          // 页面卸载时没有重试的机会，只按降级链各尝试一次
+          return await this.send(events, this.getTransports(ReportMethod.BEACON));
         case ReportMethod.IMMEDIATE:
         case ReportMethod.BATCH:
         default:
-          return await this.sendFetch(events);
+          return await this.sendWithRetry(events, onRetry);
       }
     } catch (error) {
       this.handleError('Report failed', error);
-      return false;
+      return { success: false, retryable: true };
     }
   }
 
   /**
-   * 使用 fetch 发送数据
+   * 注册自定义传输方式，优先于配置中的传输方式使用
    */
-  private async sendFetch(events: TrackEvent[]): Promise<boolean> {
-    const { reportUrl, headers = {}, timeout = 10000 } = this.config;
+  registerTransport(transport: Transport): void {
+    this.customTransports = [
+      transport,
+      ...this.customTransports.filter(item => item.name !== transport.name)
+    ];
+  }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  /**
+   * 取消所有等待中的重试
+   */
+  cancelRetries(): void {
+    this.retryTimers.forEach((resolve, timerId) => {
+      clearTimeout(timerId);
+      resolve();
+    });
+    this.retryTimers.clear();
+  }
 
-    try {
-      const response = await fetch(reportUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
-        },
-        body: this.formatPayload(events),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        this.log('Events reported successfully', events.length);
-        return true;
-      } else {
-        this.handleError('HTTP error', {
-          status: response.status,
-          statusText: response.statusText
-        });
-        return false;
+  /**
+   * 带指数退避的重试发送，离线或遇到不可重试的错误时立即返回
+   */
+  private async sendWithRetry(events: TrackEvent[], onRetry?: () => void): Promise<ReportResult> {
+    const {
+      maxAttempts = DEFAULT_RETRY_CONFIG.maxAttempts,
+      baseDelay = DEFAULT_RETRY_CONFIG.baseDelay,
+      maxDelay = DEFAULT_RETRY_CONFIG.maxDelay
+    } = this.config.retry || {};
+
+    let result: ReportResult = { success: false, retryable: true };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (isOffline()) {
+        this.log('Network offline, report paused');
+        return { success: false, retryable: true };
       }
-    } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        this.handleError('Request timeout', error);
-      } else {
-        this.handleError('Network error', error);
+
+      result = await this.send(events, this.getTransports(this.config.reportMethod));
+
+      if (result.success || !result.retryable || attempt === maxAttempts) {
+        return result;
+      }
+
+      // 等量抖动：在指数退避区间的后半段随机取值，避免大量客户端同时重试
+      const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+      const delay = result.retryAfter !== undefined
+        ? Math.min(maxDelay, result.retryAfter)
+        : backoff / 2 + Math.random() * backoff / 2;
+
+      this.log(`Report failed, retry ${attempt}/${maxAttempts - 1} in ${Math.round(delay)}ms`);
+      onRetry?.();
+
+      if (!await this.wait(delay)) {
+        return result;
       }
-      
-      return false;
     }
+
+    return result;
   }
 
   /**
-   * 使用 sendBeacon 发送数据
+   * 等待指定时间，被取消时返回 false
    */
-  private async sendBeacon(events: TrackEvent[]): Promise<boolean> {
-    if (!navigator.sendBeacon) {
-      this.log('sendBeacon not supported, fallback to fetch');
-      return this.sendFetch(events).then(result => result).catch(() => false);
-    }
+  private wait(delay: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const timerId = window.setTimeout(() => {
+        this.retryTimers.delete(timerId);
+        resolve(true);
+      }, delay);
+
+      this.retryTimers.set(timerId, () => resolve(false));
+    });
+  }
 
-    try {
-      const success = navigator.sendBeacon(
-        this.config.reportUrl,
-        this.formatPayload(events)
-      );
-
-      if (success) {
-        this.log('Events sent via beacon successfully', events.length);
-      } else {
-        this.handleError('Beacon send failed', null);
+  /**
+   * 获取传输方式降级链
+   */
+  private getTransports(reportMethod?: ReportMethod): Transport[] {
+    const isBeacon = reportMethod === ReportMethod.BEACON;
+    const names = this.config.transports || (isBeacon ? ['beacon', 'fetch', 'xhr'] : ['fetch', 'xhr']);
+
+    const transports = names
+      .map(item => (typeof item === 'string' ? createTransport(item, { keepalive: isBeacon }) : item))
+      .filter((transport): transport is Transport => !!transport);
+
+    return [...this.customTransports, ...transports].filter(transport => transport.isSupported());
+  }
+
+  /**
+   * 按降级链发送数据，收到服务端响应后不再降级
+   */
+  private async send(events: TrackEvent[], transports: Transport[]): Promise<ReportResult> {
+    const { reportUrl, headers = {}, timeout = 10000 } = this.config;
+    const request: TransportRequest = {
+      url: reportUrl,
+      body: this.serializer.serialize(events, this.config),
+      headers: {
+        'Content-Type': this.serializer.contentType,
+        ...headers
+      },
+      timeout
+    };
+
+    let result: ReportResult = { success: false, retryable: true };
+    let compressedRequest: Promise<TransportRequest> | undefined;
+
+    for (const transport of transports) {
+      try {
+        // 只在第一个支持压缩的传输方式前压缩一次，beacon 等无法设置请求头的方式使用原始请求体
+        if (transport.supportsCompression && this.shouldCompress(request)) {
+          compressedRequest = compressedRequest || this.compress(request);
+          result = await transport.send(await compressedRequest);
+        } else {
+          result = await transport.send(request);
+        }
+      } catch (error) {
+        result = { success: false, retryable: true };
       }
 
-      return success;
-    } catch (error) {
-      this.handleError('Beacon error', error);
-      return false;
+      if (result.success) {
+        this.log(`Events reported successfully via ${transport.name}`, events.length);
+        return result;
+      }
+
+      if (result.status !== undefined) {
+        this.handleError('HTTP error', { transport: transport.name, status: result.status });
+        return result;
+      }
+
+      this.handleError(`Transport ${transport.name} failed`, null);
     }
+
+    return result;
   }
 
   /**
-   * 格式化上报数据
+   * 判断请求体是否需要压缩
    */
-  private formatPayload(events: TrackEvent[]): string {
-    const payload = {
-      events: events.map(event => {
-        const formattedEvent: any = {
-          event_name: event.eventName,
-          user_id: event.userId,
-          session_id: event.sessionId,
-          timestamp: event.timestamp,
-          app_id: this.config.appId,
-          platform: event.deviceType || 'desktop',
-          user_agent: event.userAgent,
-          page_url: event.pageUrl
-        };
-
-        // 将properties中的自定义参数存放到custom_properties字段中
-        if (event.properties && Object.keys(event.properties).length > 0) {
-          formattedEvent.custom_properties = JSON.stringify(event.properties);
-        }
+  private shouldCompress(request: TransportRequest): boolean {
+    const {
+      enabled = DEFAULT_COMPRESSION_CONFIG.enabled,
+      threshold = DEFAULT_COMPRESSION_CONFIG.threshold
+    } = this.config.compression || {};
 
-        return formattedEvent;
-      })
-    };
+    return enabled && isCompressionSupported() && getByteLength(request.body) >= threshold;
+  }
 
-    return safeStringify(payload);
+  /**
+   * 压缩请求体，失败时返回原始请求
+   */
+  private async compress(request: TransportRequest): Promise<TransportRequest> {
+    try {
+      const body = await gzip(request.body as string);
+      this.log(`Payload compressed ${getByteLength(request.body)} -> ${body.byteLength} bytes`);
+
+      return {
+        ...request,
+        body,
+        headers: { ...request.headers, 'Content-Encoding': 'gzip' }
+      };
+    } catch (error) {
+      this.handleError('Compression failed', error);
+      return request;
+    }
   }
 
   /**
@@ -162,5 +246,9 @@ export class Reporter {
    */
   updateConfig(config: Partial<TrackerConfig>): void {
     this.config = { ...this.config, ...config };
+
+    if (config.payloadFormat) {
+      this.serializer = createSerializer(config.payloadFormat);
+    }
   }
 }
\ No newline at end of file
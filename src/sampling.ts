@@ -0,0 +1,84 @@
+import { EventType } from './constants';
+import { SamplingConfig, TrackEvent } from './types';
+import { hashToUnit } from './utils';
+
+/**
+ * 将采样率限制在 0~1 之间
+ */
+function clampRate(rate: number): number {
+  return Math.min(1, Math.max(0, rate));
+}
+
+/**
+ * 客户端采样器
+ */
+export class Sampler {
+  private config: SamplingConfig;
+
+  constructor(config: SamplingConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 获取事件适用的采样率
+   */
+  getRate(event: TrackEvent): number {
+    const { rate = 1, errorRate, eventTypeRates = {}, eventNameRates = {} } = this.config;
+
+    if (eventNameRates[event.eventName] !== undefined) {
+      return clampRate(eventNameRates[event.eventName]);
+    }
+
+    if (event.eventType === EventType.ERROR && errorRate !== undefined) {
+      return clampRate(errorRate);
+    }
+
+    const typeRate = eventTypeRates[event.eventType];
+    if (typeRate !== undefined) {
+      return clampRate(typeRate);
+    }
+
+    return clampRate(rate);
+  }
+
+  /**
+   * 判断事件是否被采样命中
+   * 按用户或会话采样时使用稳定哈希，采样率越高命中的集合越大，同一用户的事件不会被拆散
+   */
+  isSampled(event: TrackEvent, rate: number): boolean {
+    if (rate >= 1) {
+      return true;
+    }
+
+    if (rate <= 0) {
+      return false;
+    }
+
+    const sampleKey = this.getSampleKey(event);
+    const value = sampleKey === undefined ? Math.random() : hashToUnit(sampleKey);
+
+    return value < rate;
+  }
+
+  /**
+   * 更新采样配置
+   */
+  updateConfig(config: SamplingConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * 获取确定性采样的依据
+   * 按用户采样时优先使用匿名ID，调用 identify 登录前后属于同一个采样桶
+   */
+  private getSampleKey(event: TrackEvent): string | undefined {
+    switch (this.config.key) {
+      case 'user':
+        return event.anonymousId || event.userId;
+      case 'session':
+        return event.sessionId;
+      default:
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { DEFAULT_SCHEMA_CONFIG, EventType } from './constants';
+import { PropertyRule, SchemaConfig, SchemaViolation, TrackEvent } from './types';
+
+/**
+ * 获取属性值的校验类型
+ */
+function getValueType(value: any): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+/**
+ * 事件结构校验器
+ * 按事件名称查找声明的结构，校验调用方传入的属性(不含全局属性)
+ */
+export class SchemaValidator {
+  private config?: SchemaConfig;
+
+  constructor(config?: SchemaConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 更新配置
+   */
+  updateConfig(config?: SchemaConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * 是否启用了校验
+   */
+  isEnabled(): boolean {
+    return !!this.config;
+  }
+
+  /**
+   * 是否丢弃不合法的事件
+   */
+  isStrict(): boolean {
+    return (this.config?.mode || DEFAULT_SCHEMA_CONFIG.mode) === 'strict';
+  }
+
+  /**
+   * 是否上报诊断事件
+   */
+  shouldReport(): boolean {
+    return this.config?.reportViolations ?? DEFAULT_SCHEMA_CONFIG.reportViolations;
+  }
+
+  /**
+   * 校验事件，返回全部校验失败项
+   */
+  validate(event: Pick<TrackEvent, 'eventType' | 'eventName' | 'properties'>): SchemaViolation[] {
+    if (!this.config || event.eventType === EventType.DIAGNOSTIC) {
+      return [];
+    }
+
+    const definition = this.config.events[event.eventName];
+    if (!definition) {
+      // 只有通过 track 上报的自定义事件要求声明，自动采集的事件不受影响
+      const allowUnknownEvents = this.config.allowUnknownEvents ?? DEFAULT_SCHEMA_CONFIG.allowUnknownEvents;
+      return allowUnknownEvents || event.eventType !== EventType.CUSTOM
+        ? []
+        : [{ rule: 'unknown_event', message: `Event "${event.eventName}" is not declared` }];
+    }
+
+    const rules = definition.properties || {};
+    const properties = event.properties || {};
+    const violations: SchemaViolation[] = [];
+
+    Object.keys(rules).forEach(property => {
+      const violation = this.validateProperty(property, properties[property], rules[property]);
+      if (violation) {
+        violations.push(violation);
+      }
+    });
+
+    if (!(this.config.allowUnknownProperties ?? DEFAULT_SCHEMA_CONFIG.allowUnknownProperties)) {
+      Object.keys(properties)
+        .filter(property => !rules[property])
+        .forEach(property => {
+          violations.push({ property, rule: 'unknown_property', message: `Property "${property}" is not declared` });
+        });
+    }
+
+    return violations;
+  }
+
+  /**
+   * 校验单个属性，未传入的可选属性不校验
+   */
+  private validateProperty(property: string, value: any, rule: PropertyRule): SchemaViolation | null {
+    if (value === undefined || value === null) {
+      return rule.required
+        ? { property, rule: 'required', message: `Property "${property}" is required` }
+        : null;
+    }
+
+    const valueType = getValueType(value);
+    if (rule.type && valueType !== rule.type) {
+      return { property, rule: 'type', message: `Property "${property}" should be ${rule.type}, got ${valueType}` };
+    }
+
+    if (rule.enum && !rule.enum.includes(value)) {
+      return { property, rule: 'enum', message: `Property "${property}" should be one of ${rule.enum.join(', ')}` };
+    }
+
+    if (rule.maxLength !== undefined && typeof value === 'string' && value.length > rule.maxLength) {
+      return {
+        property,
+        rule: 'maxLength',
+        message: `Property "${property}" exceeds ${rule.maxLength} characters`
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,172 @@
+import { DEFAULT_SELECTOR_CONFIG } from './constants';
+import { SelectorConfig } from './types';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+/**
+ * 转义 CSS 标识符
+ */
+function escapeIdentifier(value: string): string {
+  if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') {
+    return CSS.escape(value);
+  }
+
+  return value
+    .replace(/[^a-zA-Z0-9_\u00A0-\uFFFF-]/g, char => `\\${char}`)
+    .replace(/^(-?)(\d)/, (_match, dash, digit) => `${dash}\\3${digit} `);
+}
+
+/**
+ * 转义带引号的属性值
+ */
+function escapeAttributeValue(value: string): string {
+  return value.replace(/["\\]/g, char => `\\${char}`);
+}
+
+/**
+ * 获取元素的 class 列表，兼容 SVG 元素(className 为 SVGAnimatedString)
+ */
+function getClassList(element: Element): string[] {
+  const className = element.getAttribute('class') || '';
+  return className.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 判断 class 或 id 是否为构建工具生成的哈希值
+ */
+function isHashed(value: string, config: SelectorConfig): boolean {
+  const patterns = [...DEFAULT_SELECTOR_CONFIG.hashedPatterns, ...(config.ignoreClassPatterns || [])];
+  return patterns.some(pattern => pattern.test(value));
+}
+
+/**
+ * 判断选择器在文档中是否唯一
+ */
+function isUnique(selector: string, element: Element): boolean {
+  try {
+    const matches = element.ownerDocument.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 可以唯一定位元素的锚点选择器：稳定的测试属性或 id
+ */
+function getAnchorSelector(element: Element, config: SelectorConfig): string | null {
+  const stableAttributes = config.stableAttributes || DEFAULT_SELECTOR_CONFIG.stableAttributes;
+
+  for (const attribute of stableAttributes) {
+    const value = element.getAttribute(attribute);
+    if (value) {
+      const selector = `[${attribute}="${escapeAttributeValue(value)}"]`;
+      if (isUnique(selector, element)) {
+        return selector;
+      }
+    }
+  }
+
+  const id = element.getAttribute('id');
+  if (id && !isHashed(id, config)) {
+    const selector = `#${escapeIdentifier(id)}`;
+    if (isUnique(selector, element)) {
+      return selector;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 获取用于选择器的稳定 class
+ */
+function getStableClasses(element: Element, config: SelectorConfig): string[] {
+  return getClassList(element)
+    .filter(className => !isHashed(className, config))
+    .slice(0, DEFAULT_SELECTOR_CONFIG.maxClasses);
+}
+
+/**
+ * 路径中单个元素的选择器：标签名 + 稳定的 class，同级存在同样匹配的元素时追加 nth-child
+ */
+function getPathSegment(element: Element, config: SelectorConfig): string {
+  const tagName = element.localName;
+  const classes = getStableClasses(element, config);
+  const segment = `${tagName}${classes.map(className => `.${escapeIdentifier(className)}`).join('')}`;
+  const parent = element.parentElement;
+
+  if (!parent) {
+    return segment;
+  }
+
+  const siblings = Array.from(parent.children);
+  const isAmbiguous = siblings.some(sibling => (
+    sibling !== element &&
+    sibling.localName === tagName &&
+    classes.every(className => getClassList(sibling).includes(className))
+  ));
+
+  // nth-child 按全部子元素计数，而不是同标签的子元素
+  return isAmbiguous ? `${segment}:nth-child(${siblings.indexOf(element) + 1})` : segment;
+}
+
+/**
+ * 获取元素的CSS选择器路径
+ * 优先使用 data-testid/data-argos-id 与 id，其次从最近的锚点或 body 开始生成唯一路径
+ */
+export function getElementSelector(element: Element, config: SelectorConfig = {}): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const anchor = getAnchorSelector(current, config);
+    if (anchor) {
+      segments.unshift(anchor);
+      break;
+    }
+
+    segments.unshift(getPathSegment(current, config));
+
+    if (current.localName === 'body' || current.localName === 'html') {
+      break;
+    }
+
+    current = current.parentElement;
+  }
+
+  return segments.join(' > ');
+}
+
+/**
+ * 获取元素的 XPath
+ * 存在唯一的 id 时以 id 为起点，SVG 等非 HTML 元素使用 local-name() 匹配
+ */
+export function getElementXPath(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const id = current.getAttribute('id');
+    if (id && id.indexOf('"') === -1 && !isHashed(id, {}) && isUnique(`#${escapeIdentifier(id)}`, current)) {
+      segments.unshift(`//*[@id="${id}"]`);
+      return segments.join('/');
+    }
+
+    const localName: string = current.localName;
+    const isHtml = current.namespaceURI === XHTML_NAMESPACE;
+    const nameTest = isHtml ? localName : `*[local-name()="${localName}"]`;
+    const parent: Element | null = current.parentElement;
+    const sameNameSiblings = parent
+      ? Array.from(parent.children).filter(sibling => sibling.localName === localName)
+      : [current];
+
+    segments.unshift(sameNameSiblings.length > 1
+      ? `${nameTest}[${sameNameSiblings.indexOf(current) + 1}]`
+      : nameTest);
+
+    current = parent;
+  }
+
+  return `/${segments.join('/')}`;
+}
@@ -0,0 +1,159 @@
+import { EventType } from './constants';
+import { PayloadFormat, PayloadSerializer, TrackerConfig, TrackEvent } from './types';
+import { generateUUID, safeStringify } from './utils';
+
+/**
+ * 将事件转换为 snake_case 字段
+ * nestProperties 为 false 时 custom_properties 以 JSON 字符串上报(旧版服务端格式)
+ */
+function formatEvent(event: TrackEvent, config: TrackerConfig, nestProperties: boolean): Record<string, any> {
+  const formattedEvent: Record<string, any> = {
+    event_id: event.eventId,
+    event_name: event.eventName,
+    user_id: event.userId,
+    anonymous_id: event.anonymousId,
+    session_id: event.sessionId,
+    timestamp: event.timestamp,
+    app_id: config.appId,
+    platform: event.deviceType || 'desktop',
+    user_agent: event.userAgent,
+    page_url: event.pageUrl
+  };
+
+  if (nestProperties) {
+    formattedEvent.event_type = event.eventType;
+    formattedEvent.page_title = event.pageTitle;
+    formattedEvent.screen_resolution = event.screenResolution;
+  }
+
+  if (event.duration !== undefined) {
+    formattedEvent.duration = event.duration;
+  }
+
+  if (event.sampleRate !== undefined) {
+    formattedEvent.sample_rate = event.sampleRate;
+  }
+
+  // 将properties中的自定义参数存放到custom_properties字段中
+  if (event.properties && Object.keys(event.properties).length > 0) {
+    formattedEvent.custom_properties = nestProperties ? event.properties : JSON.stringify(event.properties);
+  }
+
+  return formattedEvent;
+}
+
+/**
+ * 默认格式，兼容旧版服务端
+ */
+export class DefaultSerializer implements PayloadSerializer {
+  readonly name = 'default';
+  readonly contentType = 'application/json';
+
+  serialize(events: TrackEvent[], config: TrackerConfig): string {
+    return safeStringify({ events: events.map(event => formatEvent(event, config, false)) });
+  }
+}
+
+/**
+ * 嵌套 JSON 格式，properties 不再二次编码
+ */
+export class JsonSerializer implements PayloadSerializer {
+  readonly name = 'json';
+  readonly contentType = 'application/json';
+
+  serialize(events: TrackEvent[], config: TrackerConfig): string {
+    return safeStringify({ events: events.map(event => formatEvent(event, config, true)) });
+  }
+}
+
+/**
+ * NDJSON 格式，每行一个事件
+ */
+export class NdjsonSerializer implements PayloadSerializer {
+  readonly name = 'ndjson';
+  readonly contentType = 'application/x-ndjson';
+
+  serialize(events: TrackEvent[], config: TrackerConfig): string {
+    return events.map(event => safeStringify(formatEvent(event, config, true))).join('\n');
+  }
+}
+
+/**
+ * Segment 兼容的 batch 格式
+ */
+export class SegmentSerializer implements PayloadSerializer {
+  readonly name = 'segment';
+  readonly contentType = 'application/json';
+
+  serialize(events: TrackEvent[], config: TrackerConfig): string {
+    return safeStringify({
+      batch: events.map(event => this.formatMessage(event, config)),
+      sentAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * 转换为 Segment 消息：页面访问对应 page，身份关联和画像设置对应 identify，其余为 track
+   */
+  private formatMessage(event: TrackEvent, config: TrackerConfig): Record<string, any> {
+    const properties = { ...event.properties };
+    if (event.duration !== undefined) {
+      properties.duration = event.duration;
+    }
+
+    const message: Record<string, any> = {
+      messageId: event.eventId || generateUUID(),
+      timestamp: new Date(event.timestamp || Date.now()).toISOString(),
+      userId: event.userId,
+      anonymousId: event.anonymousId,
+      context: {
+        page: { url: event.pageUrl, title: event.pageTitle },
+        userAgent: event.userAgent,
+        device: { type: event.deviceType },
+        appId: config.appId,
+        sessionId: event.sessionId,
+        sampleRate: event.sampleRate
+      }
+    };
+
+    if (event.eventType === EventType.PAGE_VIEW) {
+      return {
+        ...message,
+        type: 'page',
+        name: event.pageTitle,
+        properties: { url: event.pageUrl, title: event.pageTitle, ...properties }
+      };
+    }
+
+    if (event.eventType === EventType.IDENTIFY) {
+      return { ...message, type: 'identify', traits: {} };
+    }
+
+    if (event.eventType === EventType.USER_PROFILE && event.eventName === 'profile_set') {
+      return { ...message, type: 'identify', traits: properties };
+    }
+
+    return { ...message, type: 'track', event: event.eventName, properties };
+  }
+}
+
+/**
+ * 根据配置创建序列化器
+ */
+export function createSerializer(format: PayloadFormat | PayloadSerializer = 'default'): PayloadSerializer {
+  if (typeof format === 'object') {
+    return format;
+  }
+
+  switch (format) {
+    case 'json':
+      return new JsonSerializer();
+    case 'ndjson':
+      return new NdjsonSerializer();
+    case 'segment':
+      return new SegmentSerializer();
+    case 'default':
+    default:
+      return new DefaultSerializer();
+  }
+}
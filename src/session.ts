@@ -0,0 +1,182 @@
+import { DEFAULT_SESSION_CONFIG } from './constants';
+import { StorageManager } from './storage';
+import { SessionConfig, SessionState } from './types';
+import { generateUUID, getCurrentTimestamp } from './utils';
+
+/**
+ * 会话生命周期回调
+ */
+export interface SessionLifecycleHandler {
+  /** 会话开始 */
+  onSessionStart(state: SessionState): void;
+  /** 会话结束 */
+  onSessionEnd(state: SessionState): void;
+}
+
+/**
+ * 获取当前 URL 中的 utm_source
+ */
+function getUtmSource(): string | undefined {
+  try {
+    return new URLSearchParams(window.location.search).get('utm_source') || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * 判断两个时间是否在同一天(本地时间)
+ */
+function isSameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * 会话管理器
+ * 会话状态每次读取都以 localStorage 为准，多个标签页的活动会共同延续同一个会话
+ */
+export class SessionManager {
+  private storage: StorageManager;
+  private config: SessionConfig;
+  private handler?: SessionLifecycleHandler;
+  /** localStorage 不可用时的内存副本 */
+  private state: SessionState | null = null;
+
+  constructor(storage: StorageManager, config: SessionConfig = {}, handler?: SessionLifecycleHandler) {
+    this.storage = storage;
+    this.config = config;
+    this.handler = handler;
+  }
+
+  /**
+   * 记录一次活动，必要时结束旧会话并开始新会话，返回当前会话ID
+   */
+  touch(countEvent = true): string {
+    const now = getCurrentTimestamp();
+    let state = this.readState();
+
+    if (state && this.shouldRollover(state, now)) {
+      this.handler?.onSessionEnd(state);
+      state = null;
+    }
+
+    if (!state) {
+      state = this.createState(now);
+      this.handler?.onSessionStart(state);
+    }
+
+    state.lastActivityTime = now;
+    if (countEvent) {
+      state.eventCount++;
+    }
+    this.writeState(state);
+
+    return state.id;
+  }
+
+  /**
+   * 获取当前会话ID，不记录活动
+   */
+  getSessionId(): string {
+    const state = this.readState();
+
+    if (state && !this.shouldRollover(state, getCurrentTimestamp())) {
+      return state.id;
+    }
+
+    return this.touch(false);
+  }
+
+  /**
+   * 立即结束当前会话并开始新会话
+   */
+  renew(): string {
+    const state = this.readState();
+
+    if (state) {
+      this.handler?.onSessionEnd(state);
+    }
+
+    const newState = this.createState(getCurrentTimestamp());
+    this.writeState(newState);
+    this.handler?.onSessionStart(newState);
+
+    return newState.id;
+  }
+
+  /**
+   * 丢弃内存中的会话状态，不触发会话结束，存储中的状态由调用方清除
+   * 之后的第一次活动会开始新会话
+   */
+  reset(): void {
+    this.state = null;
+  }
+
+  /**
+   * 更新会话配置
+   */
+  updateConfig(config: SessionConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * 判断是否需要开始新会话
+   */
+  private shouldRollover(state: SessionState, now: number): boolean {
+    const {
+      timeout = DEFAULT_SESSION_CONFIG.timeout,
+      rolloverAtMidnight = DEFAULT_SESSION_CONFIG.rolloverAtMidnight,
+      rolloverOnUtmChange = DEFAULT_SESSION_CONFIG.rolloverOnUtmChange
+    } = this.config;
+
+    if (now - state.lastActivityTime > timeout) {
+      return true;
+    }
+
+    if (rolloverAtMidnight && !isSameDay(state.lastActivityTime, now)) {
+      return true;
+    }
+
+    if (rolloverOnUtmChange) {
+      const utmSource = getUtmSource();
+      // 只有新的 utm_source 出现时才切换，普通站内跳转不带 utm 参数
+      if (utmSource && utmSource !== state.utmSource) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * 创建会话状态
+   */
+  private createState(now: number): SessionState {
+    return {
+      id: generateUUID(),
+      startTime: now,
+      lastActivityTime: now,
+      eventCount: 0,
+      utmSource: getUtmSource()
+    };
+  }
+
+  /**
+   * 读取会话状态，优先使用其他标签页写入的最新状态
+   */
+  private readState(): SessionState | null {
+    const stored = this.storage.getSessionState();
+    if (stored) {
+      this.state = stored;
+    }
+    return this.state ? { ...this.state } : null;
+  }
+
+  /**
+   * 保存会话状态
+   */
+  private writeState(state: SessionState): void {
+    this.state = { ...state };
+    this.storage.setSessionState(state);
+  }
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_ERROR_CONFIG } from './constants';
+import { StackFrame } from './types';
+import { hashString } from './utils';
+
+/**
+ * Chrome/Edge：`at fn (url:line:col)`、`at url:line:col`
+ */
+const CHROME_FRAME = /^\s*at (?:(.+?) )?\(?((?:[a-z][\w+.-]*:|\/|<anonymous>|\[native code\]).*?)(?::(\d+))?(?::(\d+))?\)?\s*$/i;
+
+/**
+ * Chrome 中 eval 代码的调用位置：`at eval (eval at fn (url:line:col), <anonymous>:1:1)`
+ */
+const CHROME_EVAL = /^\s*at (?:(.+?) )?\(eval at [^()]*\((.+?):(\d+):(\d+)\)/;
+
+/**
+ * Firefox/Safari：`fn@url:line:col`、`@url:line:col`
+ */
+const GECKO_FRAME = /^\s*(.*?)@(.*?)(?::(\d+))?(?::(\d+))?\s*$/;
+
+/**
+ * Firefox 中 eval 代码的调用位置：`url line 10 > eval`
+ */
+const GECKO_EVAL = /^(.*?) line (\d+) > (?:eval|Function)/;
+
+/**
+ * 构建堆栈帧，忽略空字段
+ */
+function createFrame(func: string | undefined, filename: string | undefined, lineno?: string, colno?: string): StackFrame {
+  const frame: StackFrame = {};
+
+  const name = func?.replace(/^async /, '').trim();
+  if (name && name !== '<anonymous>') {
+    frame.function = name;
+  }
+
+  if (filename) {
+    frame.filename = filename;
+  }
+
+  if (lineno) {
+    frame.lineno = Number(lineno);
+  }
+
+  if (colno) {
+    frame.colno = Number(colno);
+  }
+
+  return frame;
+}
+
+/**
+ * 解析 Chrome 格式的单行堆栈，首行的错误消息等非堆栈行返回 null
+ */
+function parseChromeLine(line: string): StackFrame | null {
+  const evalMatch = line.match(CHROME_EVAL);
+  if (evalMatch) {
+    return createFrame(evalMatch[1], evalMatch[2], evalMatch[3], evalMatch[4]);
+  }
+
+  const match = line.match(CHROME_FRAME);
+  return match ? createFrame(match[1], match[2], match[3], match[4]) : null;
+}
+
+/**
+ * 解析 Firefox/Safari 格式的单行堆栈，Safari 中没有位置信息的帧(如 `[native code]`)返回 null
+ */
+function parseGeckoLine(line: string): StackFrame | null {
+  const match = line.match(GECKO_FRAME);
+  if (!match) {
+    return null;
+  }
+
+  const evalMatch = match[2].match(GECKO_EVAL);
+  return evalMatch
+    ? createFrame(match[1], evalMatch[1], evalMatch[2])
+    : createFrame(match[1], match[2], match[3], match[4]);
+}
+
+/**
+ * 将 Chrome、Firefox、Safari 格式的堆栈字符串解析为结构化的堆栈帧，最近的调用在前
+ */
+export function parseStackTrace(stack?: string): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  const lines = stack.split('\n');
+  // Chrome 的堆栈首行为错误消息，消息中可能含有 @，需先判断格式
+  const parseLine = lines.some(line => /^\s*at /.test(line)) ? parseChromeLine : parseGeckoLine;
+
+  for (const line of lines) {
+    const frame = parseLine(line);
+    if (frame) {
+      frames.push(frame);
+      if (frames.length >= DEFAULT_ERROR_CONFIG.maxStackFrames) {
+        break;
+      }
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * 去除错误消息中的易变部分(数字、引号内的值)，同一原因的错误得到相同的消息
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/(["'`]).*?\1/g, '<v>')
+    .replace(/\d+/g, '<n>')
+    .trim();
+}
+
+/**
+ * 去除地址中的查询参数与 hash，避免缓存参数影响指纹
+ */
+function normalizeFilename(filename?: string): string {
+  return filename ? filename.replace(/[?#].*$/, '') : '';
+}
+
+/**
+ * 计算错误指纹：错误类型、规范化后的消息与栈顶的几帧
+ * 没有堆栈时(如跨域脚本的 Script error.)使用错误发生的位置
+ */
+export function getErrorFingerprint(
+  errorType: string,
+  message: string,
+  frames: StackFrame[],
+  location?: StackFrame
+): string {
+  const topFrames = (frames.length > 0 ? frames.slice(0, 3) : location ? [location] : [])
+    .map(frame => `${frame.function || ''}@${normalizeFilename(frame.filename)}:${frame.lineno || ''}:${frame.colno || ''}`);
+
+  return hashString([errorType, normalizeMessage(message), ...topFrames].join('|'));
+}
@@ -1,38 +1,69 @@
-import { STORAGE_KEYS } from './constants';
+import { ACK_CACHE_SIZE, STORAGE_KEYS } from './constants';
 import { generateUUID, safeParse, safeStringify } from './utils';
-import { TrackEvent } from './types';
+import { ConsentState, FunnelState, OfflineQueueConfig, PendingEvent, SessionState, TrackEvent } from './types';
+import { PendingEventQueue } from './queue';
+
+/**
+ * 旧版本仅存储会话ID字符串的键名
+ */
+const LEGACY_SESSION_ID_KEY = 'argos_session_id';
 
 /**
  * 存储管理器
  */
 export class StorageManager {
-  private sessionId: string;
   private userId?: string;
+  private anonymousId?: string;
+  private superProperties?: Record<string, any>;
+  /** localStorage 不可用时的内存副本 */
+  private funnelStates: Record<string, FunnelState> = {};
+  /** localStorage 不可用时的内存副本 */
+  private acknowledgedEventIds: string[] = [];
+  private pendingQueue: PendingEventQueue;
+  private migration: Promise<void>;
 
-  constructor() {
-    this.sessionId = this.getOrCreateSessionId();
+  constructor(queueConfig?: OfflineQueueConfig) {
+    this.removeItem(LEGACY_SESSION_ID_KEY);
     this.userId = this.getUserId();
+    this.pendingQueue = new PendingEventQueue(queueConfig);
+    this.migration = this.migrateLegacyPendingEvents();
   }
 
   /**
-   * 获取或创建会话ID
+   * 将旧版本 localStorage 中的待上报事件迁移到当前存储后端
    */
-  private getOrCreateSessionId(): string {
-    let sessionId = this.getItem(STORAGE_KEYS.SESSION_ID);
-    
-    if (!sessionId) {
-      sessionId = generateUUID();
-      this.setItem(STORAGE_KEYS.SESSION_ID, sessionId);
+  private async migrateLegacyPendingEvents(): Promise<void> {
+    if (this.pendingQueue.getBackendName() === 'localstorage') {
+      return;
     }
-    
-    return sessionId;
+
+    const eventsStr = this.getItem(STORAGE_KEYS.PENDING_EVENTS);
+    if (!eventsStr) {
+      return;
+    }
+
+    const legacyEvents = safeParse<any[]>(eventsStr, [])
+      .map(item => (item && item.event ? item.event : item))
+      .filter(Boolean);
+
+    this.removeItem(STORAGE_KEYS.PENDING_EVENTS);
+    await this.pendingQueue.save(legacyEvents);
   }
 
   /**
-   * 获取会话ID
+   * 获取会话状态
    */
-  getSessionId(): string {
-    return this.sessionId;
+  getSessionState(): SessionState | null {
+    const stateStr = this.getItem(STORAGE_KEYS.SESSION);
+    const state = stateStr ? safeParse<SessionState | null>(stateStr, null) : null;
+    return state && state.id ? state : null;
+  }
+
+  /**
+   * 保存会话状态
+   */
+  setSessionState(state: SessionState): void {
+    this.setItem(STORAGE_KEYS.SESSION, safeStringify(state));
   }
 
   /**
@@ -69,61 +100,222 @@ export class StorageManager {
   }
 
   /**
-   * 保存待上报事件
+   * 获取匿名ID，不存在时生成并持久化
    */
-  savePendingEvents(events: TrackEvent[]): void {
-    const existingEvents = this.getPendingEvents();
-    const allEvents = [...existingEvents, ...events];
-    this.setItem(STORAGE_KEYS.PENDING_EVENTS, safeStringify(allEvents));
+  getAnonymousId(): string {
+    if (!this.anonymousId) {
+      this.anonymousId = this.getItem(STORAGE_KEYS.ANONYMOUS_ID) || undefined;
+    }
+
+    if (!this.anonymousId) {
+      this.anonymousId = this.resetAnonymousId();
+    }
+
+    return this.anonymousId;
   }
 
   /**
-   * 获取待上报事件
+   * 重新生成匿名ID
    */
-  getPendingEvents(): TrackEvent[] {
-    const eventsStr = this.getItem(STORAGE_KEYS.PENDING_EVENTS);
-    return eventsStr ? safeParse(eventsStr, []) : [];
+  resetAnonymousId(): string {
+    this.anonymousId = generateUUID();
+    this.setItem(STORAGE_KEYS.ANONYMOUS_ID, this.anonymousId);
+    return this.anonymousId;
   }
 
   /**
-   * 清除待上报事件
+   * 获取授权状态
    */
-  clearPendingEvents(): void {
-    this.removeItem(STORAGE_KEYS.PENDING_EVENTS);
+  getConsentState(): ConsentState {
+    const stateStr = this.getItem(STORAGE_KEYS.CONSENT);
+    return stateStr ? safeParse<ConsentState>(stateStr, {}) : {};
   }
 
   /**
-   * 移除指定数量的待上报事件
+   * 保存授权状态
    */
-  removePendingEvents(count: number): void {
-    const events = this.getPendingEvents();
-    const remainingEvents = events.slice(count);
-    
-    if (remainingEvents.length > 0) {
-      this.setItem(STORAGE_KEYS.PENDING_EVENTS, safeStringify(remainingEvents));
+  setConsentState(state: ConsentState): void {
+    this.setItem(STORAGE_KEYS.CONSENT, safeStringify(state));
+  }
+
+  /**
+   * 清除用户ID、匿名ID与会话等身份标识
+   */
+  clearIdentifiers(): void {
+    this.userId = undefined;
+    this.anonymousId = undefined;
+    this.removeItem(STORAGE_KEYS.USER_ID);
+    this.removeItem(STORAGE_KEYS.ANONYMOUS_ID);
+    this.removeItem(STORAGE_KEYS.SESSION);
+    this.funnelStates = {};
+    this.removeItem(STORAGE_KEYS.FUNNELS);
+  }
+
+  /**
+   * 获取全部漏斗进度，优先使用其他标签页写入的最新状态
+   */
+  getFunnelStates(): Record<string, FunnelState> {
+    const statesStr = this.getItem(STORAGE_KEYS.FUNNELS);
+    if (statesStr) {
+      this.funnelStates = safeParse<Record<string, FunnelState>>(statesStr, {});
+    }
+    return { ...this.funnelStates };
+  }
+
+  /**
+   * 保存漏斗进度，传入 null 时移除
+   */
+  setFunnelState(name: string, state: FunnelState | null): void {
+    const states = this.getFunnelStates();
+
+    if (state) {
+      states[name] = state;
+    } else {
+      delete states[name];
+    }
+
+    this.funnelStates = states;
+    if (Object.keys(states).length > 0) {
+      this.setItem(STORAGE_KEYS.FUNNELS, safeStringify(states));
+    } else {
+      this.removeItem(STORAGE_KEYS.FUNNELS);
+    }
+  }
+
+  /**
+   * 获取全局属性
+   */
+  getSuperProperties(): Record<string, any> {
+    if (!this.superProperties) {
+      const propertiesStr = this.getItem(STORAGE_KEYS.SUPER_PROPERTIES);
+      this.superProperties = propertiesStr ? safeParse(propertiesStr, {}) : {};
+    }
+
+    return { ...this.superProperties };
+  }
+
+  /**
+   * 保存全局属性
+   */
+  setSuperProperties(properties: Record<string, any>): void {
+    this.superProperties = { ...properties };
+
+    if (Object.keys(properties).length > 0) {
+      this.setItem(STORAGE_KEYS.SUPER_PROPERTIES, safeStringify(properties));
     } else {
-      this.clearPendingEvents();
+      this.removeItem(STORAGE_KEYS.SUPER_PROPERTIES);
     }
   }
 
   /**
-   * 重新生成会话ID
+   * 获取已确认送达的事件ID，每次读取以 localStorage 为准以便多个标签页共享
+   */
+  getAcknowledgedEventIds(): Set<string> {
+    const idsStr = this.getItem(STORAGE_KEYS.ACKED_EVENTS);
+    if (idsStr) {
+      this.acknowledgedEventIds = safeParse<string[]>(idsStr, []);
+    }
+
+    return new Set(this.acknowledgedEventIds);
+  }
+
+  /**
+   * 记录已确认送达的事件ID，超出上限时淘汰最早的记录
+   */
+  acknowledgeEvents(ids: string[]): void {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const existing = [...this.getAcknowledgedEventIds()];
+    this.acknowledgedEventIds = [...existing, ...ids].slice(-ACK_CACHE_SIZE);
+    this.setItem(STORAGE_KEYS.ACKED_EVENTS, safeStringify(this.acknowledgedEventIds));
+  }
+
+  /**
+   * 保存待上报事件，返回缓存记录ID
+   */
+  async savePendingEvents(events: TrackEvent[], destination?: string): Promise<string[]> {
+    await this.migration;
+    return this.pendingQueue.save(events, destination);
+  }
+
+  /**
+   * 页面卸载时同步备份待上报事件，下次读取离线缓存时再合并到离线队列
+   * 离线队列的写入是异步的(迁移、跨标签页锁、IndexedDB)，卸载过程中往往来不及完成
+   */
+  backupPendingEvents(events: TrackEvent[], destination?: string): void {
+    const backup = safeParse<{ destination?: string; event: TrackEvent }[]>(
+      this.getItem(STORAGE_KEYS.UNLOAD_EVENTS) || '[]',
+      []
+    );
+    events.forEach(event => backup.push({ destination, event }));
+    this.setItem(STORAGE_KEYS.UNLOAD_EVENTS, safeStringify(backup));
+  }
+
+  /**
+   * 获取指定上报目标的待上报事件，不传则获取默认目标的事件
    */
-  renewSessionId(): string {
-    this.sessionId = generateUUID();
-    this.setItem(STORAGE_KEYS.SESSION_ID, this.sessionId);
-    return this.sessionId;
+  async getPendingEvents(destination?: string): Promise<PendingEvent[]> {
+    await this.migration;
+    await this.restoreUnloadBackup();
+    const records = await this.pendingQueue.getAll();
+    return records.filter(record => record.destination === destination);
   }
 
   /**
-   * 清除所有存储数据
+   * 清除待上报事件
+   */
+  async clearPendingEvents(): Promise<void> {
+    this.removeItem(STORAGE_KEYS.UNLOAD_EVENTS);
+    await this.migration;
+    await this.pendingQueue.clear();
+  }
+
+  /**
+   * 按记录ID移除已上报的事件
    */
-  clear(): void {
+  async removePendingEvents(ids: string[]): Promise<void> {
+    await this.migration;
+    await this.pendingQueue.remove(ids);
+  }
+
+  /**
+   * 清除所有存储数据，离线队列清空后 resolve
+   */
+  async clear(): Promise<void> {
     Object.values(STORAGE_KEYS).forEach(key => {
       this.removeItem(key);
     });
-    this.sessionId = generateUUID();
     this.userId = undefined;
+    this.anonymousId = undefined;
+    this.superProperties = undefined;
+    this.funnelStates = {};
+    this.acknowledgedEventIds = [];
+    await this.clearPendingEvents();
+  }
+
+  /**
+   * 将页面卸载时的同步备份按上报目标合并到离线队列
+   */
+  private async restoreUnloadBackup(): Promise<void> {
+    const backupStr = this.getItem(STORAGE_KEYS.UNLOAD_EVENTS);
+    if (!backupStr) {
+      return;
+    }
+
+    // 先移除再写入，其他标签页同时读取离线缓存时不会重复合并
+    this.removeItem(STORAGE_KEYS.UNLOAD_EVENTS);
+    const groups = new Map<string | undefined, TrackEvent[]>();
+    safeParse<{ destination?: string; event: TrackEvent }[]>(backupStr, [])
+      .filter(item => item && item.event)
+      .forEach(({ destination, event }) => {
+        groups.set(destination, [...(groups.get(destination) || []), event]);
+      });
+
+    for (const [destination, events] of groups) {
+      await this.pendingQueue.save(events, destination);
+    }
   }
 
   /**
@@ -135,7 +327,7 @@ export class StorageManager {
         localStorage.setItem(key, value);
       }
     } catch (error) {
-      console.warn('Failed to set localStorage item:', error);
+      console.warn('[ArgosTracker] Failed to set localStorage item:', error);
     }
   }
 
@@ -148,7 +340,7 @@ export class StorageManager {
         return localStorage.getItem(key);
       }
     } catch (error) {
-      console.warn('Failed to get localStorage item:', error);
+      console.warn('[ArgosTracker] Failed to get localStorage item:', error);
     }
     return null;
   }
@@ -162,7 +354,7 @@ export class StorageManager {
         localStorage.removeItem(key);
       }
     } catch (error) {
-      console.warn('Failed to remove localStorage item:', error);
+      console.warn('[ArgosTracker] Failed to remove localStorage item:', error);
     }
   }
 }
\ No newline at end of file
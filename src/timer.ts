@@ -0,0 +1,113 @@
+import { getCurrentTimestamp } from './utils';
+
+/**
+ * 单个计时器状态
+ */
+interface TimerState {
+  /** 已累计的时长(ms)，不含当前计时段 */
+  elapsed: number;
+  /** 当前计时段的开始时间，暂停时为 0 */
+  resumedAt: number;
+}
+
+/**
+ * 事件计时器
+ * 同一事件可以按 key 同时存在多个计时器；页面处于后台时暂停计时，回到前台后继续。
+ * 计时器保存在内存中，SPA 路由切换不影响计时
+ */
+export class EventTimers {
+  private timers = new Map<string, Map<string, TimerState>>();
+  private isStarted = false;
+
+  /**
+   * 开始监听页面可见性
+   */
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * 停止监听并清除全部计时器
+   */
+  stop(): void {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.timers.clear();
+  }
+
+  /**
+   * 开始计时，同一事件同一 key 的计时器已存在时重新计时
+   */
+  begin(eventName: string, key = ''): void {
+    let timers = this.timers.get(eventName);
+    if (!timers) {
+      timers = new Map();
+      this.timers.set(eventName, timers);
+    }
+
+    timers.set(key, {
+      elapsed: 0,
+      resumedAt: this.isHidden() ? 0 : getCurrentTimestamp()
+    });
+  }
+
+  /**
+   * 结束计时并移除计时器，返回累计时长(ms)，计时器不存在时返回 undefined
+   */
+  end(eventName: string, key = ''): number | undefined {
+    const timers = this.timers.get(eventName);
+    const timer = timers?.get(key);
+    if (!timers || !timer) {
+      return undefined;
+    }
+
+    timers.delete(key);
+    if (timers.size === 0) {
+      this.timers.delete(eventName);
+    }
+
+    return this.getElapsed(timer, getCurrentTimestamp());
+  }
+
+  /**
+   * 页面切到后台时暂停全部计时器，回到前台后继续
+   */
+  private handleVisibilityChange = (): void => {
+    const now = getCurrentTimestamp();
+    const hidden = this.isHidden();
+
+    this.timers.forEach(timers => {
+      timers.forEach(timer => {
+        if (hidden && timer.resumedAt) {
+          timer.elapsed = this.getElapsed(timer, now);
+          timer.resumedAt = 0;
+        } else if (!hidden && !timer.resumedAt) {
+          timer.resumedAt = now;
+        }
+      });
+    });
+  };
+
+  /**
+   * 计算累计时长
+   */
+  private getElapsed(timer: TimerState, now: number): number {
+    return timer.elapsed + (timer.resumedAt ? Math.max(0, now - timer.resumedAt) : 0);
+  }
+
+  /**
+   * 页面是否处于后台
+   */
+  private isHidden(): boolean {
+    return document.visibilityState === 'hidden';
+  }
+}
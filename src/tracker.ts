@@ -1,34 +1,96 @@
-import { TrackerConfig, TrackEvent, UserInfo } from './types';
-import { EventType, ReportMethod, DEFAULT_CONFIG } from './constants';
+import {
+  ArgosPlugin,
+  ConsentCategory,
+  ConsentState,
+  DestinationConfig,
+  EventMiddleware,
+  EventSchemaMap,
+  FunnelDefinition,
+  MiddlewareOptions,
+  ReportResult,
+  SessionState,
+  TrackerConfig,
+  TrackEvent,
+  TrackPropertiesArgs,
+  Transport,
+  UserInfo
+} from './types';
+import { BUILTIN_PLUGINS, EventType, DEFAULT_CONFIG, DEFAULT_CONSENT_CONFIG, TAB_COORDINATION } from './constants';
 import { StorageManager } from './storage';
-import { Reporter } from './reporter';
-import { AutoCollector } from './collector';
+import { Destination } from './destination';
+import { LeaderElector } from './coordination';
+import { ClickPlugin, ErrorPlugin, ExposurePlugin, PageViewPlugin, PerformancePlugin } from './collector';
+import { MiddlewarePipeline } from './middleware';
+import { PluginRegistry } from './plugin';
+import { SessionManager } from './session';
+import { ConsentManager, getConsentCategory } from './consent';
+import { Sampler } from './sampling';
+import { SchemaValidator } from './schema';
+import { EventTimers } from './timer';
+import { Funnel, createFunnelAbandonEvent } from './funnel';
 import {
   deepMerge,
+  generateUUID,
   getCurrentTimestamp,
   getPageInfo,
   getUserAgent,
   getScreenResolution,
-  getDeviceType
+  getDeviceType,
+  safeStringify
 } from './utils';
 
 /**
  * Argos 埋点追踪器
+ * 传入事件结构映射 TSchema 后，track 的事件名称与属性在编译期检查
  */
-export class ArgosTracker {
+export class ArgosTracker<TSchema extends EventSchemaMap<TSchema> = Record<string, Record<string, any>>> {
   private config: TrackerConfig;
   private storage: StorageManager;
-  private reporter: Reporter;
-  private collector: AutoCollector;
-  private eventQueue: TrackEvent[] = [];
-  private batchTimer: number | null = null;
+  private session: SessionManager;
+  private consent: ConsentManager;
+  private sampler: Sampler;
+  private validator: SchemaValidator;
+  private timers = new EventTimers();
+  private funnels = new Map<string, { funnel: Funnel; abandonOnUnload: boolean }>();
+  private consentBuffer: TrackEvent[] = [];
+  private builtinPluginKeys = new Map<string, string>();
+  private defaultDestination: Destination;
+  private destinations: Destination[] = [];
+  private middlewares = new MiddlewarePipeline();
+  private plugins = new PluginRegistry(this.middlewares);
+  private leader: LeaderElector;
+  private drainTimer: number | null = null;
   private isInitialized = false;
+  private handleOnline = () => {
+    this.log('Network online, draining pending events');
+    this.getAllDestinations().forEach(destination => destination.flush());
+    this.sendPendingEvents();
+  };
+  private handleReport = (events: TrackEvent[], result: ReportResult, destination: string) => {
+    this.plugins.afterSend(events, result, destination);
+  };
+  private isDenied = (event: TrackEvent) => this.consent.isDenied(getConsentCategory(event.eventType));
 
   constructor(config: TrackerConfig) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.storage = new StorageManager();
-    this.reporter = new Reporter(this.config);
-    this.collector = new AutoCollector(this.handleAutoEvent.bind(this));
+    this.storage = new StorageManager(this.config.offlineQueue);
+    this.consent = new ConsentManager(this.storage, this.config.consent);
+    this.sampler = new Sampler(this.config.sampling);
+    this.validator = new SchemaValidator(this.config.schema);
+    this.session = new SessionManager(this.storage, this.config.session, {
+      onSessionStart: state => this.trackSessionEvent('session_start', state),
+      onSessionEnd: state => {
+        this.trackSessionEvent('session_end', state);
+        this.abandonFunnels(state);
+      }
+    });
+    this.defaultDestination = new Destination(this.config, this.storage, undefined, { onReport: this.handleReport, isDenied: this.isDenied });
+    this.syncDestinations();
+    this.leader = new LeaderElector(this.handleLeaderChange.bind(this));
+
+    if (this.config.beforeSend) {
+      this.middlewares.use(this.config.beforeSend);
+    }
     
     this.init();
   }
@@ -46,18 +108,18 @@ export class ArgosTracker {
       this.storage.setUserId(this.config.userId);
     }
 
-    // 启动自动收集
-    this.collector.start({
-      autoTrackPageView: this.config.autoTrackPageView,
-      autoTrackClick: this.config.autoTrackClick,
-      autoTrackError: this.config.autoTrackError
-    });
+    // 注册内置采集插件(已拒绝授权的类别不采集)
+    this.syncBuiltinPlugins();
 
     // 处理页面卸载时的数据上报
     this.setupBeforeUnload();
 
-    // 恢复待上报事件
-    this.restorePendingEvents();
+    // 参与主标签页选举，由主标签页负责恢复待上报事件
+    this.leader.start();
+    this.timers.start();
+
+    // 网络恢复后重新上报离线缓存
+    window.addEventListener('online', this.handleOnline);
 
     this.isInitialized = true;
     this.log('Tracker initialized');
@@ -66,14 +128,33 @@ export class ArgosTracker {
   /**
    * 追踪自定义事件
    */
-  track(eventName: string, properties?: Record<string, any>): void {
+  track<K extends keyof TSchema & string>(eventName: K, ...args: TrackPropertiesArgs<TSchema[K]>): void {
+    const [properties, options] = args;
+
     this.trackEvent({
       eventType: EventType.CUSTOM,
       eventName,
-      properties
+      properties,
+      // 存在对应的计时器时附带计时时长
+      duration: this.timers.end(eventName, options?.timerKey)
     });
   }
 
+  /**
+   * 开始为事件计时，之后调用 track 上报该事件时自动附带时长
+   * 同一事件需要同时计时多次时传入不同的 key，并在 track 时通过 timerKey 指定
+   */
+  timeEvent(eventName: keyof TSchema & string, key?: string): void {
+    this.timers.begin(eventName, key);
+  }
+
+  /**
+   * 结束计时但不上报事件，返回计时时长(ms)，计时器不存在时返回 undefined
+   */
+  endTimer(eventName: keyof TSchema & string, key?: string): number | undefined {
+    return this.timers.end(eventName, key);
+  }
+
   /**
    * 追踪页面访问
    */
@@ -101,11 +182,26 @@ export class ArgosTracker {
     });
   }
 
+  /**
+   * 定义漏斗，通过返回的漏斗对象按顺序记录步骤；同名漏斗重新定义时沿用已保存的进度
+   */
+  defineFunnel(definition: FunnelDefinition): Funnel {
+    const funnel = new Funnel(definition, {
+      storage: this.storage,
+      track: event => this.trackEvent(event),
+      getSessionId: () => this.session.getSessionId(),
+      log: (message, ...args) => this.log(message, ...args)
+    });
+
+    this.funnels.set(definition.name, { funnel, abandonOnUnload: !!definition.abandonOnUnload });
+    return funnel;
+  }
+
   /**
    * 设置用户信息
    */
   setUser(userInfo: UserInfo): void {
-    this.storage.setUserId(userInfo.userId);
+    this.identify(userInfo.userId);
     
     // 追踪用户设置事件
     this.trackEvent({
@@ -115,28 +211,211 @@ export class ArgosTracker {
     });
   }
 
+  /**
+   * 关联用户身份，上报匿名ID与用户ID的关联事件
+   */
+  identify(userId: string): void {
+    const previousUserId = this.storage.getUserId();
+
+    this.storage.setUserId(userId);
+
+    if (previousUserId === userId) {
+      return;
+    }
+
+    this.trackEvent({
+      eventType: EventType.IDENTIFY,
+      eventName: 'identify',
+      properties: {
+        anonymousId: this.storage.getAnonymousId(),
+        userId,
+        previousUserId
+      }
+    });
+  }
+
+  /**
+   * 设置用户画像属性，覆盖已有值
+   */
+  setUserProperties(properties: Record<string, any>): void {
+    this.trackProfile('profile_set', properties);
+  }
+
+  /**
+   * 设置用户画像属性，仅在属性不存在时生效
+   */
+  setOnce(properties: Record<string, any>): void {
+    this.trackProfile('profile_set_once', properties);
+  }
+
+  /**
+   * 累加数值型用户画像属性
+   */
+  increment(property: string | Record<string, number>, value = 1): void {
+    const properties = typeof property === 'string' ? { [property]: value } : property;
+    this.trackProfile('profile_increment', properties);
+  }
+
+  /**
+   * 注册全局属性，合并到之后每个事件的 properties 中
+   */
+  register(properties: Record<string, any>): void {
+    this.storage.setSuperProperties({
+      ...this.storage.getSuperProperties(),
+      ...properties
+    });
+  }
+
+  /**
+   * 移除全局属性
+   */
+  unregister(propertyName: string): void {
+    const superProperties = this.storage.getSuperProperties();
+    delete superProperties[propertyName];
+    this.storage.setSuperProperties(superProperties);
+  }
+
+  /**
+   * 获取当前的全局属性
+   */
+  getSuperProperties(): Record<string, any> {
+    return this.storage.getSuperProperties();
+  }
+
   /**
    * 清除用户信息
+   * resetAnonymousId 为 true 时同时重新生成匿名ID，退出登录后的行为不再关联到原设备身份
    */
-  clearUser(): void {
+  clearUser(options: { resetAnonymousId?: boolean } = {}): void {
     this.storage.clearUserId();
     
     this.trackEvent({
       eventType: EventType.CUSTOM,
       eventName: 'user_clear'
     });
+
+    if (options.resetAnonymousId) {
+      this.storage.resetAnonymousId();
+    }
+  }
+
+  /**
+   * 授权采集与上报，不传类别则授权全部类别
+   */
+  optIn(categories?: ConsentCategory[]): void {
+    this.consent.optIn(categories);
+    if (this.isInitialized) {
+      this.syncBuiltinPlugins();
+    }
+
+    // 重新处理授权前暂存的事件，仍未授权的类别会继续暂存
+    const bufferedEvents = this.consentBuffer;
+    this.consentBuffer = [];
+    bufferedEvents.forEach(event => this.trackEvent(event));
+
+    this.log('Consent granted:', this.consent.getState());
+  }
+
+  /**
+   * 拒绝采集与上报，不传类别则拒绝全部类别，并清除待上报事件与身份标识
+   */
+  optOut(categories?: ConsentCategory[]): void {
+    this.consent.optOut(categories);
+    if (this.isInitialized) {
+      this.syncBuiltinPlugins();
+    }
+
+    this.consentBuffer = this.consentBuffer.filter(event => !this.isDenied(event));
+    this.getAllDestinations().forEach(destination => destination.filterQueue(event => !this.isDenied(event)));
+
+    if (!categories) {
+      this.getAllDestinations().forEach(destination => destination.cancel());
+      this.storage.clearPendingEvents();
+      this.storage.clearIdentifiers();
+      this.session.reset();
+    }
+
+    this.log('Consent revoked:', this.consent.getState());
+  }
+
+  /**
+   * 是否已获得指定类别的授权，默认检查 analytics
+   */
+  hasConsent(category: ConsentCategory = 'analytics'): boolean {
+    return this.consent.isGranted(category);
+  }
+
+  /**
+   * 获取各类别的授权状态
+   */
+  getConsentState(): ConsentState {
+    return this.consent.getState();
+  }
+
+  /**
+   * 注册自定义传输方式，优先于内置传输方式使用
+   */
+  registerTransport(transport: Transport): void {
+    this.getAllDestinations().forEach(destination => destination.registerTransport(transport));
+  }
+
+  /**
+   * 注册事件中间件，返回取消注册的函数
+   */
+  addMiddleware(middleware: EventMiddleware, options?: MiddlewareOptions): () => void {
+    return this.middlewares.use(middleware, options);
+  }
+
+  /**
+   * 移除事件中间件
+   */
+  removeMiddleware(middleware: EventMiddleware): void {
+    this.middlewares.remove(middleware);
+  }
+
+  /**
+   * 注册插件，同名插件已注册时忽略，返回注销插件的函数
+   */
+  use(plugin: ArgosPlugin): () => void {
+    if (!this.plugins.add(plugin, this)) {
+      this.log('Plugin not registered:', plugin.name);
+      return () => undefined;
+    }
+
+    this.log('Plugin registered:', plugin.name);
+    return () => this.plugins.remove(plugin);
+  }
+
+  /**
+   * 按名称注销插件
+   */
+  removePlugin(name: string): void {
+    this.plugins.remove(name);
+    this.builtinPluginKeys.delete(name);
+  }
+
+  /**
+   * 获取已注册的插件名称
+   */
+  getPlugins(): string[] {
+    return this.plugins.getNames();
+  }
+
+  /**
+   * 上报插件采集的事件，与内置采集的事件一样经过授权、采样与中间件处理
+   */
+  captureEvent(event: TrackEvent): void {
+    this.trackEvent(event);
   }
 
   /**
    * 立即上报所有待上报事件
    */
   async flush(): Promise<void> {
-    if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
-      this.batchTimer = null;
-    }
+    // 等待异步中间件处理完成的事件入队
+    await this.middlewares.whenIdle();
 
-    await this.sendEvents();
+    await Promise.all(this.getAllDestinations().map(destination => destination.flush()));
   }
 
   /**
@@ -144,7 +423,12 @@ export class ArgosTracker {
    */
   updateConfig(newConfig: Partial<TrackerConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    this.reporter.updateConfig(this.config);
+    this.defaultDestination.updateConfig(this.config);
+    this.syncDestinations();
+    this.session.updateConfig(this.config.session);
+    this.consent.updateConfig(this.config.consent);
+    this.sampler.updateConfig(this.config.sampling);
+    this.validator.updateConfig(this.config.schema);
     
     if (newConfig.userId) {
       this.storage.setUserId(newConfig.userId);
@@ -155,12 +439,12 @@ export class ArgosTracker {
    * 销毁追踪器
    */
   destroy(): void {
-    this.collector.stop();
-    
-    if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
-      this.batchTimer = null;
-    }
+    this.plugins.clear();
+    this.builtinPluginKeys.clear();
+    this.leader.stop();
+    this.timers.stop();
+    this.getAllDestinations().forEach(destination => destination.cancel());
+    window.removeEventListener('online', this.handleOnline);
 
     // 上报剩余事件
     this.flush();
@@ -178,11 +462,32 @@ export class ArgosTracker {
       return;
     }
 
+    if (!this.validateEvent(event)) {
+      return;
+    }
+
+    const category = getConsentCategory(event.eventType as EventType);
+    if (!this.consent.isGranted(category)) {
+      this.handleUnconsentedEvent(event, category);
+      return;
+    }
+
+    // 先确定会话，会话切换时的结束/开始事件会排在当前事件之前；活动在采样命中后才记录
+    const sessionId = event.sessionId || this.session.getSessionId();
+
+    // 用户画像与身份关联事件描述的是用户本身，不附加全局属性
+    const properties = event.eventType === EventType.USER_PROFILE || event.eventType === EventType.IDENTIFY
+      ? event.properties
+      : { ...this.storage.getSuperProperties(), ...event.properties };
+
     const fullEvent: TrackEvent = {
       ...event,
+      eventId: event.eventId || generateUUID(),
+      properties,
       timestamp: event.timestamp || getCurrentTimestamp(),
       userId: event.userId || this.storage.getUserId(),
-      sessionId: event.sessionId || this.storage.getSessionId(),
+      anonymousId: event.anonymousId || this.storage.getAnonymousId(),
+      sessionId,
       pageUrl: event.pageUrl || window.location.href,
       pageTitle: event.pageTitle || document.title,
       userAgent: event.userAgent || getUserAgent(),
@@ -190,90 +495,297 @@ export class ArgosTracker {
       deviceType: event.deviceType || getDeviceType()
     } as TrackEvent;
 
-    this.addToQueue(fullEvent);
+    // 采样率随事件上报，便于服务端按比例还原总量
+    fullEvent.sampleRate = this.sampler.getRate(fullEvent);
+    if (!this.sampler.isSampled(fullEvent, fullEvent.sampleRate)) {
+      this.log('Event dropped by sampling:', fullEvent.eventName);
+      return;
+    }
+
+    if (!event.sessionId) {
+      this.session.touch();
+    }
+
+    this.middlewares.process(fullEvent, processedEvent => this.addToQueue(processedEvent));
   }
 
   /**
-   * 处理自动收集的事件
+   * 按声明的结构校验事件，校验失败时上报诊断事件(调试模式下同时输出警告)，严格模式下返回 false 丢弃事件
    */
-  private handleAutoEvent(event: TrackEvent): void {
-    this.trackEvent(event);
+  private validateEvent(event: Partial<TrackEvent>): boolean {
+    if (!this.validator.isEnabled()) {
+      return true;
+    }
+
+    const violations = this.validator.validate(event as TrackEvent);
+    if (violations.length === 0) {
+      return true;
+    }
+
+    const dropped = this.validator.isStrict();
+    if (dropped) {
+      this.log('Event dropped by schema validation:', event.eventName, violations);
+    } else if (this.config.debug) {
+      console.warn(`[ArgosTracker] Event "${event.eventName}" does not match schema:`, violations);
+    }
+
+    if (this.validator.shouldReport()) {
+      this.trackEvent({
+        eventType: EventType.DIAGNOSTIC,
+        eventName: 'schema_violation',
+        properties: {
+          eventName: event.eventName,
+          eventType: event.eventType,
+          violations,
+          dropped
+        }
+      });
+    }
+
+    return !dropped;
   }
 
   /**
-   * 添加事件到队列
+   * 处理未获授权的事件：暂存到内存中等待授权，或直接丢弃
    */
-  private addToQueue(event: TrackEvent): void {
-    this.eventQueue.push(event);
-    this.log('Event added to queue:', event.eventName);
-
-    if (this.config.reportMethod === ReportMethod.IMMEDIATE) {
-      this.sendEvents();
-    } else if (this.config.reportMethod === ReportMethod.BATCH) {
-      if (this.eventQueue.length >= (this.config.batchSize || 10)) {
-        this.sendEvents();
-      } else {
-        this.scheduleBatchSend();
-      }
+  private handleUnconsentedEvent(event: Partial<TrackEvent>, category: ConsentCategory): void {
+    if (!this.consent.shouldBuffer(category)) {
+      this.log('Event discarded without consent:', event.eventName);
+      return;
+    }
+
+    // 记录事件发生时的页面上下文，身份标识等授权后再生成
+    this.consentBuffer.push({
+      ...event,
+      timestamp: event.timestamp || getCurrentTimestamp(),
+      pageUrl: event.pageUrl || window.location.href,
+      pageTitle: event.pageTitle || document.title
+    } as TrackEvent);
+
+    const maxBufferSize = this.config.consent?.maxBufferSize ?? DEFAULT_CONSENT_CONFIG.maxBufferSize;
+    if (this.consentBuffer.length > maxBufferSize) {
+      this.consentBuffer.shift();
     }
   }
 
   /**
-   * 调度批量发送
+   * 按配置与授权状态注册或注销内置采集插件，选项未变化的插件保持运行
    */
-  private scheduleBatchSend(): void {
-    if (this.batchTimer) {
+  private syncBuiltinPlugins(): void {
+    const { config } = this;
+    const analytics = !this.consent.isDenied('analytics');
+    const errors = !this.consent.isDenied('error');
+
+    const trackClicks = !!config.autoTrackClick && analytics;
+    const trackDeclarative = !!config.autoTrackDeclarative && analytics;
+    const trackFrustration = !!config.autoTrackFrustration && analytics;
+    const trackErrors = !!config.autoTrackError && errors;
+    const trackApi = !!config.autoTrackApi && errors;
+    // 追踪器自身的上报地址
+    const reportUrls = [config.reportUrl, ...(config.destinations || []).map(destination => destination.reportUrl)];
+
+    this.syncBuiltinPlugin(
+      BUILTIN_PLUGINS.PAGE_VIEW,
+      config.autoTrackPageView && analytics ? { trackHashChange: config.trackHashChange } : null,
+      options => new PageViewPlugin(options)
+    );
+    this.syncBuiltinPlugin(
+      BUILTIN_PLUGINS.CLICK,
+      trackClicks || trackDeclarative || trackFrustration
+        ? {
+            trackClicks,
+            trackDeclarative,
+            trackFrustration,
+            click: config.click,
+            frustration: config.frustration,
+            selector: config.selector,
+            ignoreUrls: reportUrls
+          }
+        : null,
+      options => new ClickPlugin(options)
+    );
+    this.syncBuiltinPlugin(
+      BUILTIN_PLUGINS.EXPOSURE,
+      config.autoTrackExposure && analytics ? { exposure: config.exposure, selector: config.selector } : null,
+      options => new ExposurePlugin(options)
+    );
+    this.syncBuiltinPlugin(
+      BUILTIN_PLUGINS.ERROR,
+      trackErrors || trackApi
+        ? {
+            trackErrors,
+            error: config.error,
+            trackApi,
+            api: config.api,
+            selector: config.selector,
+            ignoreUrls: reportUrls
+          }
+        : null,
+      options => new ErrorPlugin(options)
+    );
+    this.syncBuiltinPlugin(
+      BUILTIN_PLUGINS.PERFORMANCE,
+      config.autoTrackPerformance && !this.consent.isDenied('performance') ? {} : null,
+      () => new PerformancePlugin()
+    );
+  }
+
+  /**
+   * 选项变化时重新注册内置插件，options 为 null 时注销
+   */
+  private syncBuiltinPlugin<T extends object>(name: string, options: T | null, create: (options: T) => ArgosPlugin): void {
+    const key = options ? safeStringify(options) : '';
+    if ((this.builtinPluginKeys.get(name) || '') === key) {
       return;
     }
 
-    this.batchTimer = window.setTimeout(() => {
-      this.sendEvents();
-      this.batchTimer = null;
-    }, this.config.batchInterval || 5000);
+    if (this.builtinPluginKeys.has(name)) {
+      this.plugins.remove(name);
+      this.builtinPluginKeys.delete(name);
+    }
+
+    if (options && this.plugins.add(create(options), this)) {
+      this.builtinPluginKeys.set(name, key);
+    }
   }
 
   /**
-   * 发送事件
+   * 追踪用户画像更新事件
    */
-  private async sendEvents(): Promise<void> {
-    if (this.eventQueue.length === 0) {
+  private trackProfile(eventName: string, properties: Record<string, any>): void {
+    if (Object.keys(properties).length === 0) {
       return;
     }
 
-    const eventsToSend = [...this.eventQueue];
-    this.eventQueue = [];
+    this.trackEvent({
+      eventType: EventType.USER_PROFILE,
+      eventName,
+      properties
+    });
+  }
 
-    try {
-      const success = await this.reporter.report(eventsToSend);
-      
-      if (!success) {
-        // 上报失败，保存到本地存储
-        this.storage.savePendingEvents(eventsToSend);
-        this.log('Events saved to storage due to report failure');
+  /**
+   * 追踪会话生命周期事件
+   */
+  private trackSessionEvent(eventName: 'session_start' | 'session_end', state: SessionState): void {
+    if (!this.config.autoTrackSession) {
+      return;
+    }
+
+    const isEnd = eventName === 'session_end';
+    const duration = state.lastActivityTime - state.startTime;
+
+    this.trackEvent({
+      eventType: EventType.SESSION,
+      eventName,
+      sessionId: state.id,
+      timestamp: isEnd ? state.lastActivityTime : state.startTime,
+      duration: isEnd ? duration : undefined,
+      properties: isEnd
+        ? { duration, eventCount: state.eventCount }
+        : { utmSource: state.utmSource }
+    });
+  }
+
+  /**
+   * 会话结束时放弃该会话内未完成的漏斗，包括本页面尚未定义的漏斗
+   */
+  private abandonFunnels(session: SessionState): void {
+    const states = this.storage.getFunnelStates();
+
+    Object.keys(states)
+      .filter(name => states[name].sessionId === session.id)
+      .forEach(name => {
+        this.storage.setFunnelState(name, null);
+        this.trackEvent(createFunnelAbandonEvent(name, states[name], 'session_end', session.lastActivityTime));
+      });
+  }
+
+  /**
+   * 按目标的过滤条件分发事件，未被独占的事件发送到默认目标
+   */
+  private addToQueue(event: TrackEvent): void {
+    const matched = this.destinations.filter(destination => destination.matches(event));
+
+    matched.forEach(destination => destination.enqueue(event));
+
+    if (!matched.some(destination => destination.isExclusive())) {
+      this.defaultDestination.enqueue(event);
+    }
+  }
+
+  /**
+   * 获取全部上报目标，默认目标在前
+   */
+  private getAllDestinations(): Destination[] {
+    return [this.defaultDestination, ...this.destinations];
+  }
+
+  /**
+   * 按配置同步额外的上报目标，保留同名目标的队列与重试状态
+   */
+  private syncDestinations(): void {
+    const configs: DestinationConfig[] = this.config.destinations || [];
+    const existing = new Map(this.destinations.map(destination => [destination.name, destination]));
+
+    this.destinations = configs.map(options => {
+      const destination = existing.get(options.name);
+      existing.delete(options.name);
+
+      if (destination) {
+        destination.updateConfig(this.config, options);
+        return destination;
       }
-    } catch (error) {
-      // 上报异常，保存到本地存储
-      this.storage.savePendingEvents(eventsToSend);
-      this.log('Events saved to storage due to error:', error);
+
+      return new Destination(this.config, this.storage, options, { onReport: this.handleReport, isDenied: this.isDenied });
+    });
+
+    // 被移除的目标先发送剩余事件
+    existing.forEach(destination => {
+      destination.cancel();
+      destination.flush();
+    });
+  }
+
+  /**
+   * 主标签页变化时开始或停止定期上报离线缓存
+   */
+  private handleLeaderChange(isLeader: boolean): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
     }
+
+    if (!isLeader) {
+      return;
+    }
+
+    this.log('Became leader tab');
+    this.restorePendingEvents();
+
+    // 其他标签页上报失败的事件也会写入共享缓存，需要定期上报
+    this.drainTimer = window.setInterval(() => this.sendPendingEvents(), TAB_COORDINATION.DRAIN_INTERVAL);
   }
 
   /**
    * 恢复待上报事件
    */
   private restorePendingEvents(): void {
-    const pendingEvents = this.storage.getPendingEvents();
-    
-    if (pendingEvents.length > 0) {
-      this.log('Restoring pending events:', pendingEvents.length);
-      this.eventQueue.push(...pendingEvents);
-      this.storage.clearPendingEvents();
-      
-      // 延迟发送，避免初始化时立即发送
-      setTimeout(() => {
-        this.sendEvents();
-      }, 1000);
+    // 延迟发送，避免初始化时立即发送
+    setTimeout(() => {
+      this.sendPendingEvents();
+    }, 1000);
+  }
+
+  /**
+   * 上报离线缓存，仅主标签页执行，避免多个标签页重复发送
+   */
+  private sendPendingEvents(): void {
+    if (!this.leader.isLeader()) {
+      return;
     }
+
+    this.getAllDestinations().forEach(destination => destination.sendPendingEvents());
   }
 
   /**
@@ -281,18 +793,15 @@ export class ArgosTracker {
    */
   private setupBeforeUnload(): void {
     const handleBeforeUnload = () => {
-      if (this.eventQueue.length > 0) {
-        // 使用 sendBeacon 发送剩余事件
-        const tempReporter = new Reporter({
-          ...this.config,
-          reportMethod: ReportMethod.BEACON
-        });
-        
-        tempReporter.report([...this.eventQueue]);
-        
-        // 保存到本地存储作为备份
-        this.storage.savePendingEvents(this.eventQueue);
-      }
+      // 先放弃卸载即视为放弃的漏斗，放弃事件随剩余事件一起发送
+      this.funnels.forEach(({ funnel, abandonOnUnload }) => {
+        if (abandonOnUnload) {
+          funnel.abandon('page_unload');
+        }
+      });
+
+      // 使用 sendBeacon 发送剩余事件，并保存到本地存储作为备份
+      this.getAllDestinations().forEach(destination => destination.flushOnUnload());
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
@@ -322,17 +831,24 @@ export class ArgosTracker {
     return this.storage.getUserId();
   }
 
+  /**
+   * 获取当前匿名ID
+   */
+  getAnonymousId(): string {
+    return this.storage.getAnonymousId();
+  }
+
   /**
    * 获取当前会话ID
    */
   getSessionId(): string {
-    return this.storage.getSessionId();
+    return this.session.getSessionId();
   }
 
   /**
-   * 重新生成会话ID
+   * 结束当前会话并开始新会话，返回新的会话ID
    */
   renewSession(): string {
-    return this.storage.renewSessionId();
+    return this.session.renew();
   }
 }
\ No newline at end of file
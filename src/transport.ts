@@ -0,0 +1,215 @@
+import { TRANSPORT_LIMITS } from './constants';
+import { ReportResult, Transport, TransportRequest } from './types';
+import { getByteLength, getCurrentTimestamp } from './utils';
+
+/**
+ * 判断 HTTP 状态码是否可以重试
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+/**
+ * 解析 Retry-After 响应头(秒数或 HTTP 日期)，返回等待时间(ms)
+ */
+function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - getCurrentTimestamp());
+}
+
+/**
+ * 根据 HTTP 状态码生成上报结果
+ */
+function createHttpResult(status: number, retryAfter?: string | null): ReportResult {
+  if (status >= 200 && status < 300) {
+    return { success: true, retryable: false, status };
+  }
+
+  return {
+    success: false,
+    retryable: isRetryableStatus(status),
+    status,
+    retryAfter: parseRetryAfter(retryAfter)
+  };
+}
+
+/**
+ * 未收到服务端响应的失败结果
+ */
+const NETWORK_FAILURE: ReportResult = { success: false, retryable: true };
+
+/**
+ * fetch 传输
+ */
+export class FetchTransport implements Transport {
+  readonly name = 'fetch';
+  readonly supportsCompression = true;
+  private keepalive: boolean;
+
+  constructor(options: { keepalive?: boolean } = {}) {
+    this.keepalive = !!options.keepalive;
+  }
+
+  isSupported(): boolean {
+    return typeof fetch === 'function';
+  }
+
+  async send(request: TransportRequest): Promise<ReportResult> {
+    // keepalive 请求与 sendBeacon 共享 64KB 上限，超出时交给下一种传输方式
+    if (this.keepalive && getByteLength(request.body) > TRANSPORT_LIMITS.BEACON_MAX_BYTES) {
+      return NETWORK_FAILURE;
+    }
+
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    const timeoutId = controller ? setTimeout(() => controller.abort(), request.timeout) : undefined;
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: controller?.signal,
+        ...(this.keepalive ? { keepalive: true } : {})
+      });
+
+      return createHttpResult(response.status, response.headers?.get('Retry-After'));
+    } catch (error) {
+      return NETWORK_FAILURE;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * XMLHttpRequest 传输，用于不支持 fetch 的旧版 WebView
+ */
+export class XhrTransport implements Transport {
+  readonly name = 'xhr';
+  readonly supportsCompression = true;
+
+  isSupported(): boolean {
+    return typeof XMLHttpRequest !== 'undefined';
+  }
+
+  send(request: TransportRequest): Promise<ReportResult> {
+    return new Promise(resolve => {
+      const xhr = new XMLHttpRequest();
+
+      try {
+        xhr.open('POST', request.url, true);
+        xhr.timeout = request.timeout;
+        Object.keys(request.headers).forEach(name => {
+          xhr.setRequestHeader(name, request.headers[name]);
+        });
+      } catch (error) {
+        resolve(NETWORK_FAILURE);
+        return;
+      }
+
+      xhr.onload = () => resolve(createHttpResult(xhr.status, xhr.getResponseHeader('Retry-After')));
+      xhr.onerror = () => resolve(NETWORK_FAILURE);
+      xhr.ontimeout = () => resolve(NETWORK_FAILURE);
+      xhr.onabort = () => resolve(NETWORK_FAILURE);
+      xhr.send(request.body);
+    });
+  }
+}
+
+/**
+ * sendBeacon 传输，适合页面卸载时使用
+ */
+export class BeaconTransport implements Transport {
+  readonly name = 'beacon';
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+  }
+
+  async send(request: TransportRequest): Promise<ReportResult> {
+    // 超过 64KB 时浏览器会直接返回 false，提前判断以便降级
+    if (getByteLength(request.body) > TRANSPORT_LIMITS.BEACON_MAX_BYTES) {
+      return NETWORK_FAILURE;
+    }
+
+    try {
+      // 浏览器接受请求即视为成功，无法获知服务端响应
+      return navigator.sendBeacon(request.url, request.body)
+        ? { success: true, retryable: false }
+        : NETWORK_FAILURE;
+    } catch (error) {
+      return NETWORK_FAILURE;
+    }
+  }
+}
+
+/**
+ * 图片打点传输，通过 GET 请求携带数据，适用于限制 POST 与跨域请求的环境
+ */
+export class ImageTransport implements Transport {
+  readonly name = 'image';
+  private paramName: string;
+
+  constructor(options: { paramName?: string } = {}) {
+    this.paramName = options.paramName || 'data';
+  }
+
+  isSupported(): boolean {
+    return typeof Image !== 'undefined';
+  }
+
+  send(request: TransportRequest): Promise<ReportResult> {
+    if (typeof request.body !== 'string') {
+      return Promise.resolve(NETWORK_FAILURE);
+    }
+
+    const separator = request.url.indexOf('?') === -1 ? '?' : '&';
+    const url = `${request.url}${separator}${this.paramName}=${encodeURIComponent(request.body)}`;
+
+    if (url.length > TRANSPORT_LIMITS.IMAGE_MAX_URL_LENGTH) {
+      return Promise.resolve(NETWORK_FAILURE);
+    }
+
+    return new Promise(resolve => {
+      const image = new Image();
+      const timeoutId = setTimeout(() => finish(NETWORK_FAILURE), request.timeout);
+
+      const finish = (result: ReportResult) => {
+        clearTimeout(timeoutId);
+        image.onload = image.onerror = null;
+        resolve(result);
+      };
+
+      image.onload = () => finish({ success: true, retryable: false });
+      image.onerror = () => finish(NETWORK_FAILURE);
+      image.src = url;
+    });
+  }
+}
+
+/**
+ * 根据名称创建内置传输方式
+ */
+export function createTransport(name: string, options: { keepalive?: boolean } = {}): Transport | undefined {
+  switch (name) {
+    case 'fetch':
+      return new FetchTransport(options);
+    case 'xhr':
+      return new XhrTransport();
+    case 'beacon':
+      return new BeaconTransport();
+    case 'image':
+      return new ImageTransport();
+    default:
+      return undefined;
+  }
+}
@@ -1,4 +1,5 @@
 import { EventType, ReportMethod } from './constants';
+import type { ArgosTracker } from './tracker';
 
 /**
  * 埋点配置接口
@@ -26,14 +27,556 @@ export interface TrackerConfig {
   autoTrackPageView?: boolean;
   /** 是否自动收集点击事件 */
   autoTrackClick?: boolean;
+  /** 自动点击采集配置 */
+  click?: ClickConfig;
+  /** 元素选择器生成配置 */
+  selector?: SelectorConfig;
+  /** 是否收集带 data-argos-click 属性元素的点击 */
+  autoTrackDeclarative?: boolean;
+  /** 是否收集带 data-argos-expose 属性元素的曝光 */
+  autoTrackExposure?: boolean;
+  /** 曝光判定配置 */
+  exposure?: ExposureConfig;
+  /** 是否检测狂点、无效点击与报错点击 */
+  autoTrackFrustration?: boolean;
+  /** 挫败点击检测配置 */
+  frustration?: FrustrationConfig;
   /** 是否自动收集错误事件 */
   autoTrackError?: boolean;
+  /** 错误监控配置 */
+  error?: ErrorConfig;
+  /** 是否监控 fetch/XHR 请求，上报接口错误与慢请求 */
+  autoTrackApi?: boolean;
+  /** 接口监控配置 */
+  api?: ApiConfig;
+  /** 是否将 hash 变化视为页面访问 */
+  trackHashChange?: boolean;
+  /** 是否自动收集性能指标(导航耗时与 Web Vitals) */
+  autoTrackPerformance?: boolean;
+  /** 是否上报会话开始/结束事件 */
+  autoTrackSession?: boolean;
+  /** 会话配置 */
+  session?: SessionConfig;
+  /** 离线缓存队列配置 */
+  offlineQueue?: OfflineQueueConfig;
+  /** 上报失败重试配置 */
+  retry?: RetryConfig;
+  /** 传输方式降级链，按顺序尝试，前一种失败(未收到服务端响应)时使用下一种 */
+  transports?: Array<TransportName | Transport>;
+  /** 上报数据格式，默认为兼容旧版的 snake_case 格式 */
+  payloadFormat?: PayloadFormat | PayloadSerializer;
+  /** 请求体压缩配置 */
+  compression?: CompressionConfig;
+  /** 用户授权配置 */
+  consent?: ConsentConfig;
+  /** 客户端采样配置 */
+  sampling?: SamplingConfig;
+  /** 额外的上报目标，reportUrl 作为默认目标接收未被其他目标独占的事件 */
+  destinations?: DestinationConfig[];
+  /** 事件入队前的处理函数，等同于最先注册的中间件 */
+  beforeSend?: EventMiddleware;
+  /** 事件结构声明与运行时校验 */
+  schema?: SchemaConfig;
+}
+
+/**
+ * 事件中间件
+ * 可直接修改事件或返回新事件，返回 null 则丢弃该事件，支持异步
+ */
+export type EventMiddleware = (
+  event: TrackEvent
+) => TrackEvent | null | void | Promise<TrackEvent | null | void>;
+
+/**
+ * 中间件注册选项
+ */
+export interface MiddlewareOptions {
+  /** 仅处理指定类型的事件，不传则处理全部事件 */
+  eventTypes?: EventType[];
+}
+
+/**
+ * 事件结构映射，键为事件名称，值为事件属性类型，用于 ArgosTracker<TSchema> 的编译期检查
+ */
+export type EventSchemaMap<T> = { [K in keyof T]: Record<string, any> | undefined };
+
+/**
+ * track 的属性与选项参数：事件属性中有必填字段时属性参数必填
+ */
+export type TrackPropertiesArgs<P> = Partial<P> extends P
+  ? [properties?: P, options?: TrackOptions]
+  : [properties: P, options?: TrackOptions];
+
+/**
+ * track 选项
+ */
+export interface TrackOptions {
+  /** 结束的计时器 key，对应 timeEvent 传入的 key */
+  timerKey?: string;
+}
+
+/**
+ * 事件属性校验规则
+ */
+export interface PropertyRule {
+  /** 属性类型 */
+  type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  /** 是否必填 */
+  required?: boolean;
+  /** 可选值 */
+  enum?: Array<string | number | boolean>;
+  /** 字符串最大长度 */
+  maxLength?: number;
+}
+
+/**
+ * 事件结构定义
+ */
+export interface EventDefinition {
+  /** 属性校验规则，键为属性名称 */
+  properties?: Record<string, PropertyRule>;
+}
+
+/**
+ * 事件结构校验配置
+ */
+export interface SchemaConfig {
+  /** 事件结构定义，键为事件名称 */
+  events: Record<string, EventDefinition>;
+  /** 校验模式：debug 保留事件(开启 debug 时输出警告)，strict 丢弃不合法的事件，默认 debug */
+  mode?: 'debug' | 'strict';
+  /** 是否允许上报未声明的自定义事件，默认 true */
+  allowUnknownEvents?: boolean;
+  /** 是否允许未声明的属性，默认 true */
+  allowUnknownProperties?: boolean;
+  /** 是否以 schema_violation 诊断事件上报校验失败，默认 true */
+  reportViolations?: boolean;
+}
+
+/**
+ * 校验失败项
+ */
+export interface SchemaViolation {
+  /** 属性名称，事件未声明时为空 */
+  property?: string;
+  /** 未通过的规则 */
+  rule: 'unknown_event' | 'unknown_property' | 'required' | 'type' | 'enum' | 'maxLength';
+  /** 说明 */
+  message: string;
+}
+
+/**
+ * 插件接收的追踪器，不限定事件结构
+ */
+export type PluginTracker = ArgosTracker<any>;
+
+/**
+ * 插件
+ * 通过 tracker.use 注册，在 setup 中开始采集并通过 tracker.captureEvent 上报事件，在 teardown 中清理
+ */
+export interface ArgosPlugin {
+  /** 插件名称，同名插件只能注册一个 */
+  name: string;
+  /** 注册时调用 */
+  setup(tracker: PluginTracker): void;
+  /** 注销或追踪器销毁时调用，需移除事件监听并还原被替换的方法 */
+  teardown(): void;
+  /** 事件入队前调用，与事件中间件相同：可修改事件或返回新事件，返回 null 丢弃 */
+  beforeSend?: EventMiddleware;
+  /** 一批事件上报完成后调用，destination 为上报目标名称 */
+  afterSend?: (events: TrackEvent[], result: ReportResult, destination: string) => void;
+}
+
+/**
+ * 上报失败重试配置
+ */
+export interface RetryConfig {
+  /** 最大尝试次数(含首次请求) */
+  maxAttempts?: number;
+  /** 首次重试的基础延迟(ms)，之后按指数增长 */
+  baseDelay?: number;
+  /** 单次重试的最大延迟(ms) */
+  maxDelay?: number;
+}
+
+/**
+ * 内置传输方式名称
+ */
+export type TransportName = 'fetch' | 'xhr' | 'beacon' | 'image';
+
+/**
+ * 传输请求
+ */
+export interface TransportRequest {
+  /** 上报地址 */
+  url: string;
+  /** 请求体，启用压缩时为 gzip 后的二进制数据 */
+  body: string | ArrayBuffer;
+  /** 请求头 */
+  headers: Record<string, string>;
+  /** 超时时间(ms) */
+  timeout: number;
+}
+
+/**
+ * 传输方式接口
+ */
+export interface Transport {
+  /** 传输方式名称 */
+  readonly name: string;
+  /** 是否可以发送压缩后的请求体(需要能设置 Content-Encoding 请求头) */
+  readonly supportsCompression?: boolean;
+  /** 当前环境是否支持 */
+  isSupported(): boolean;
+  /** 发送请求；未收到服务端响应时不要设置 status，上报器会降级到下一种传输方式 */
+  send(request: TransportRequest): Promise<ReportResult>;
+}
+
+/**
+ * 上报结果
+ */
+export interface ReportResult {
+  /** 是否上报成功 */
+  success: boolean;
+  /** 失败时是否可以重试(网络异常、超时、5xx、429 等) */
+  retryable: boolean;
+  /** HTTP 状态码 */
+  status?: number;
+  /** 服务端通过 Retry-After 要求的等待时间(ms) */
+  retryAfter?: number;
+}
+
+/**
+ * 上报目标配置
+ * 未设置的上报参数沿用全局配置，每个目标拥有独立的发送队列、重试状态与离线缓存
+ */
+export interface DestinationConfig extends Partial<Pick<TrackerConfig,
+  'headers' | 'reportMethod' | 'batchSize' | 'batchInterval' | 'timeout' |
+  'transports' | 'payloadFormat' | 'compression' | 'retry'
+>> {
+  /** 目标名称，需唯一，用于区分离线缓存 */
+  name: string;
+  /** 上报地址 */
+  reportUrl: string;
+  /** 接收的事件类型 */
+  eventTypes?: EventType[];
+  /** 接收的事件名称 */
+  eventNames?: string[];
+  /** 自定义过滤函数，与 eventTypes/eventNames 同时设置时需同时满足 */
+  filter?: (event: TrackEvent) => boolean;
+  /** 是否独占匹配的事件，默认 true；为 false 时匹配的事件仍会发送到默认目标 */
+  exclusive?: boolean;
+}
+
+/**
+ * 内置上报数据格式
+ * - default: snake_case 字段，custom_properties 为 JSON 字符串(兼容旧版服务端)
+ * - json: snake_case 字段，properties 保持嵌套对象
+ * - ndjson: 每行一个事件，字段同 json
+ * - segment: Segment 兼容的 batch 格式
+ */
+export type PayloadFormat = 'default' | 'json' | 'ndjson' | 'segment';
+
+/**
+ * 上报数据序列化器
+ */
+export interface PayloadSerializer {
+  /** 格式名称 */
+  readonly name: string;
+  /** 请求的 Content-Type */
+  readonly contentType: string;
+  /** 将一批事件序列化为请求体 */
+  serialize(events: TrackEvent[], config: TrackerConfig): string;
+}
+
+/**
+ * 请求体压缩配置
+ */
+export interface CompressionConfig {
+  /** 是否开启 gzip 压缩，浏览器不支持 CompressionStream 时自动跳过 */
+  enabled?: boolean;
+  /** 请求体超过该字节数时才压缩 */
+  threshold?: number;
+}
+
+/**
+ * 自动点击采集配置
+ */
+export interface ClickConfig {
+  /** 忽略匹配这些选择器的元素及其后代，data-argos-ignore 始终忽略 */
+  ignoreSelectors?: string[];
+  /** 是否以最近的可交互祖先元素(链接、按钮、表单控件等)作为点击目标，默认 true */
+  walkUpToInteractive?: boolean;
+  /** 是否不采集表单控件、可编辑区域与 data-argos-mask 元素的文本，默认 true */
+  maskInputText?: boolean;
+  /** 额外需要脱敏文本的元素选择器 */
+  maskSelectors?: string[];
+}
+
+/**
+ * 元素选择器生成配置
+ */
+export interface SelectorConfig {
+  /** 优先用于定位元素的稳定属性，默认 ['data-testid', 'data-argos-id'] */
+  stableAttributes?: string[];
+  /** 额外需要忽略的 class/id 规则，内置规则已覆盖常见的 CSS-in-JS 与 CSS Modules 哈希 */
+  ignoreClassPatterns?: RegExp[];
+}
+
+/**
+ * 挫败点击检测配置
+ */
+export interface FrustrationConfig {
+  /** 是否检测狂点，默认 true */
+  rageClick?: boolean;
+  /** 判定为狂点的连续点击次数 */
+  rageClickCount?: number;
+  /** 连续点击之间的最大距离(px) */
+  rageClickRadius?: number;
+  /** 连续点击的时间窗口(ms) */
+  rageClickWindow?: number;
+  /** 是否检测无效点击，默认 true */
+  deadClick?: boolean;
+  /** 点击后等待页面响应的时长(ms) */
+  deadClickTimeout?: number;
+  /** 是否检测报错点击，默认 true */
+  errorClick?: boolean;
+  /** 点击后多长时间(ms)内的错误视为由点击引起 */
+  errorClickWindow?: number;
+}
+
+/**
+ * 挫败点击事件属性
+ */
+export interface FrustrationProperties {
+  /** 元素标签名 */
+  tagName: string;
+  /** 元素CSS选择器 */
+  selector?: string;
+  /** 点击位置X坐标 */
+  clientX: number;
+  /** 点击位置Y坐标 */
+  clientY: number;
+  /** 狂点的点击次数 */
+  clickCount?: number;
+  /** 无效点击等待的时长(ms) */
+  timeout?: number;
+  /** 报错点击的错误信息 */
+  errorMessage?: string;
+  /** 报错点击的错误类型 */
+  errorType?: 'javascript' | 'promise';
+}
+
+/**
+ * 曝光判定配置
+ */
+export interface ExposureConfig {
+  /** 元素可见比例(0~1)达到该值才开始计时 */
+  threshold?: number;
+  /** 持续可见的最短时长(ms) */
+  minDuration?: number;
+}
+
+/**
+ * 曝光事件属性
+ */
+export interface ExposureProperties {
+  /** 元素选择器 */
+  selector?: string;
+  /** 开始计时时的可见比例 */
+  visibleRatio: number;
+  /** 实际持续可见时长(ms) */
+  duration: number;
+  /** data-argos-prop-* 属性 */
+  [key: string]: any;
+}
+
+/**
+ * 客户端采样配置，采样率取值 0~1
+ * 优先级：eventNameRates > errorRate(仅错误事件) > eventTypeRates > rate
+ */
+export interface SamplingConfig {
+  /** 全局采样率 */
+  rate?: number;
+  /** 错误事件采样率 */
+  errorRate?: number;
+  /** 按事件类型设置采样率 */
+  eventTypeRates?: Partial<Record<EventType, number>>;
+  /** 按事件名称设置采样率 */
+  eventNameRates?: Record<string, number>;
+  /** 采样依据：random 逐事件随机，user 按设备匿名ID(identify 前后不变)，session 按会话；按用户或会话采样时同一用户/会话的事件同进同出 */
+  key?: 'random' | 'user' | 'session';
+}
+
+/**
+ * 授权类别：analytics 行为分析，error 错误监控，performance 性能监控
+ */
+export type ConsentCategory = 'analytics' | 'error' | 'performance';
+
+/**
+ * 各类别的授权状态，未设置表示用户尚未选择
+ */
+export type ConsentState = Partial<Record<ConsentCategory, boolean>>;
+
+/**
+ * 用户授权配置
+ */
+export interface ConsentConfig {
+  /** 是否需要用户明确授权(opt-in)后才上报，默认 false */
+  required?: boolean;
+  /** 用户尚未选择时的事件处理方式：buffer 暂存在内存中，discard 直接丢弃 */
+  pendingMode?: 'buffer' | 'discard';
+  /** 内存中暂存的最大事件数 */
+  maxBufferSize?: number;
+  /** 是否遵循浏览器的 Do Not Track 设置 */
+  respectDoNotTrack?: boolean;
+  /** 是否遵循 Global Privacy Control 信号 */
+  respectGlobalPrivacyControl?: boolean;
+}
+
+/**
+ * 会话配置
+ */
+export interface SessionConfig {
+  /** 无操作超时时间(ms)，超时后开始新会话 */
+  timeout?: number;
+  /** 跨过午夜时是否开始新会话 */
+  rolloverAtMidnight?: boolean;
+  /** URL 中的 utm_source 变化时是否开始新会话 */
+  rolloverOnUtmChange?: boolean;
+}
+
+/**
+ * 会话状态，保存在 localStorage 中供同一站点的多个标签页共享
+ */
+export interface SessionState {
+  /** 会话ID */
+  id: string;
+  /** 会话开始时间 */
+  startTime: number;
+  /** 最后活跃时间 */
+  lastActivityTime: number;
+  /** 会话内事件数 */
+  eventCount: number;
+  /** 会话来源 utm_source */
+  utmSource?: string;
+}
+
+/**
+ * 漏斗定义
+ */
+export interface FunnelDefinition {
+  /** 漏斗名称，需唯一 */
+  name: string;
+  /** 按顺序排列的步骤名称 */
+  steps: string[];
+  /** 页面卸载时是否视为放弃，默认 false：进度保存在本地存储中，刷新或跳转后可以继续，会话结束时视为放弃 */
+  abandonOnUnload?: boolean;
+}
+
+/**
+ * 漏斗放弃原因
+ */
+export type FunnelAbandonReason = 'session_end' | 'page_unload' | 'restart' | 'manual';
+
+/**
+ * 漏斗进度，保存在 localStorage 中，刷新页面后继续
+ */
+export interface FunnelState {
+  /** 本次漏斗的ID */
+  funnelId: string;
+  /** 进入漏斗时的会话ID */
+  sessionId: string;
+  /** 已到达的最大步骤序号(从 0 开始) */
+  stepIndex: number;
+  /** 最近一步的名称 */
+  lastStep: string;
+  /** 步骤总数 */
+  stepCount: number;
+  /** 进入漏斗的时间 */
+  startTime: number;
+  /** 最近一步的时间 */
+  lastStepTime: number;
+}
+
+/**
+ * 漏斗事件属性
+ */
+export interface FunnelProperties {
+  /** 漏斗名称 */
+  funnelName: string;
+  /** 本次漏斗的ID */
+  funnelId: string;
+  /** 步骤名称，放弃事件中为最近一步 */
+  stepName: string;
+  /** 步骤序号(从 0 开始) */
+  stepIndex: number;
+  /** 步骤总数 */
+  stepCount: number;
+  /** 距上一步的时长(ms) */
+  timeSincePreviousStep?: number;
+  /** 跳过的步骤 */
+  skippedSteps?: string[];
+  /** 是否回到了已经完成的步骤之前 */
+  outOfOrder?: boolean;
+  /** 放弃原因 */
+  reason?: FunnelAbandonReason;
+}
+
+/**
+ * 离线缓存队列配置
+ */
+export interface OfflineQueueConfig {
+  /** 存储后端，默认优先使用 IndexedDB，不可用时降级到 localStorage、内存 */
+  storage?: 'indexeddb' | 'localstorage' | 'memory' | QueueBackend;
+  /** 最大缓存条数 */
+  maxEvents?: number;
+  /** 最大缓存字节数(按序列化后的长度估算) */
+  maxBytes?: number;
+  /** 超出上限时的淘汰策略：oldest 淘汰最早的事件，priority 优先淘汰低优先级事件 */
+  evictionPolicy?: 'oldest' | 'priority';
+}
+
+/**
+ * 离线缓存中的待上报事件
+ */
+export interface PendingEvent {
+  /** 缓存记录ID，按写入顺序递增 */
+  id: string;
+  /** 所属上报目标名称，默认目标为空 */
+  destination?: string;
+  /** 事件数据 */
+  event: TrackEvent;
+  /** 优先级，数值越大越晚被淘汰 */
+  priority: number;
+  /** 序列化后的大小 */
+  size: number;
+  /** 写入时间 */
+  createdAt: number;
+}
+
+/**
+ * 离线缓存存储后端接口
+ */
+export interface QueueBackend {
+  /** 后端名称 */
+  readonly name: string;
+  /** 读取全部记录 */
+  getAll(): Promise<PendingEvent[]>;
+  /** 写入记录 */
+  add(records: PendingEvent[]): Promise<void>;
+  /** 按ID删除记录 */
+  remove(ids: string[]): Promise<void>;
+  /** 清空记录 */
+  clear(): Promise<void>;
 }
 
 /**
  * 埋点事件接口
  */
 export interface TrackEvent {
+  /** 事件ID，客户端生成，用于服务端去重 */
+  eventId?: string;
   /** 事件类型 */
   eventType: EventType;
   /** 事件名称 */
@@ -44,6 +587,8 @@ export interface TrackEvent {
   timestamp?: number;
   /** 用户ID */
   userId?: string;
+  /** 匿名ID，设备首次访问时生成 */
+  anonymousId?: string;
   /** 会话ID */
   sessionId?: string;
   /** 页面URL */
@@ -58,6 +603,8 @@ export interface TrackEvent {
   deviceType?: string;
   /** 持续时间(ms) */
   duration?: number;
+  /** 事件实际采用的采样率 */
+  sampleRate?: number;
   /** 点击目标 */
   click_for?: string;
 }
@@ -102,6 +649,10 @@ export interface ClickProperties {
   clientX: number;
   /** 点击位置Y坐标 */
   clientY: number;
+  /** 元素CSS选择器 */
+  selector?: string;
+  /** 元素XPath */
+  xpath?: string;
 }
 
 /**
@@ -119,5 +670,112 @@ export interface ErrorProperties {
   /** 错误列号 */
   colno?: number;
   /** 错误类型 */
-  errorType: 'javascript' | 'resource' | 'promise';
-}
\ No newline at end of file
+  errorType: 'javascript' | 'resource' | 'promise' | 'api' | 'console';
+  /** 接口错误的请求方式 */
+  method?: string;
+  /** 接口错误的请求地址(不含查询参数) */
+  url?: string;
+  /** 接口错误的响应状态码，网络错误为 0 */
+  status?: number;
+  /** 接口错误的请求耗时(ms) */
+  duration?: number;
+  /** 解析后的堆栈帧，最近的调用在前 */
+  frames?: StackFrame[];
+  /** 错误指纹，相同原因的错误指纹相同，用于聚合 */
+  fingerprint?: string;
+  /** 当前会话内该指纹的第几次上报 */
+  occurrence?: number;
+  /** 错误发生前的用户操作轨迹 */
+  breadcrumbs?: Breadcrumb[];
+}
+
+/**
+ * 堆栈帧
+ */
+export interface StackFrame {
+  /** 函数名 */
+  function?: string;
+  /** 文件地址 */
+  filename?: string;
+  /** 行号 */
+  lineno?: number;
+  /** 列号 */
+  colno?: number;
+}
+
+/**
+ * 面包屑类型
+ */
+export type BreadcrumbType = 'click' | 'navigation' | 'console' | 'fetch';
+
+/**
+ * 面包屑：错误发生前的一条用户操作或页面活动
+ */
+export interface Breadcrumb {
+  type: BreadcrumbType;
+  /** 发生时间 */
+  timestamp: number;
+  /** 摘要：点击元素的选择器、跳转地址、控制台输出或请求地址 */
+  message: string;
+  /** 附加信息 */
+  data?: Record<string, any>;
+}
+
+/**
+ * 错误监控配置
+ */
+export interface ErrorConfig {
+  /** 记录的面包屑类型，默认全部 */
+  breadcrumbs?: BreadcrumbType[];
+  /** 最多保留的面包屑条数，为 0 时不记录 */
+  maxBreadcrumbs?: number;
+  /** 每个会话内同一指纹的错误最多上报次数 */
+  maxErrorsPerFingerprint?: number;
+  /** 是否将 console.error/console.warn 的输出作为错误上报 */
+  captureConsole?: boolean;
+}
+
+/**
+ * 接口监控配置
+ */
+export interface ApiConfig {
+  /** 请求耗时超过该值(ms)时上报慢请求，为 0 时不上报 */
+  slowThreshold?: number;
+  /** 不监控的请求地址：字符串按前缀匹配，正则匹配不含查询参数的地址 */
+  ignoreUrls?: (string | RegExp)[];
+}
+
+/**
+ * 性能指标名称
+ */
+export type PerformanceMetricName = 'navigation' | 'FCP' | 'LCP' | 'CLS' | 'INP' | 'api';
+
+/**
+ * 性能事件属性
+ */
+export interface PerformanceProperties {
+  /** 指标名称 */
+  metricName: PerformanceMetricName;
+  /** 指标值(ms，CLS 为无单位分数，navigation 为页面完全加载耗时) */
+  value: number;
+  /** 指标评级 */
+  rating?: 'good' | 'needs-improvement' | 'poor';
+  /** 导航类型 */
+  navigationType?: string;
+  /** DNS 查询耗时(ms) */
+  dns?: number;
+  /** TCP 连接耗时(ms) */
+  tcp?: number;
+  /** 首字节耗时(ms)，从导航开始到收到响应第一个字节 */
+  ttfb?: number;
+  /** DOMContentLoaded 耗时(ms) */
+  domContentLoaded?: number;
+  /** load 耗时(ms) */
+  load?: number;
+  /** 慢请求的请求方式 */
+  method?: string;
+  /** 慢请求的请求地址(不含查询参数) */
+  url?: string;
+  /** 慢请求的响应状态码 */
+  status?: number;
+}
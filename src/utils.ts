@@ -1,4 +1,5 @@
-import { DeviceType } from './constants';
+import { DATA_ATTRIBUTES, DeviceType } from './constants';
+import { PerformanceProperties } from './types';
 
 /**
  * 生成UUID
@@ -11,6 +12,34 @@ export function generateUUID(): string {
   });
 }
 
+/**
+ * FNV-1a 32 位哈希
+ */
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * 将字符串哈希为 [0, 1) 区间的数值
+ */
+export function hashToUnit(str: string): number {
+  return fnv1a(str) / 0x100000000;
+}
+
+/**
+ * 将字符串哈希为 8 位十六进制字符串
+ */
+export function hashString(str: string): string {
+  return fnv1a(str).toString(16).padStart(8, '0');
+}
+
 /**
  * 获取当前时间戳
  */
@@ -29,6 +58,52 @@ export function getPageInfo() {
   };
 }
 
+/**
+ * 获取页面导航耗时
+ */
+export function getNavigationTiming(): PerformanceProperties | null {
+  if (typeof performance === 'undefined') {
+    return null;
+  }
+
+  const round = (value: number) => Math.max(0, Math.round(value));
+
+  const entries = typeof performance.getEntriesByType === 'function'
+    ? performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]
+    : [];
+  const entry = entries[0];
+
+  if (entry) {
+    return {
+      metricName: 'navigation',
+      value: round(entry.loadEventEnd),
+      navigationType: entry.type,
+      dns: round(entry.domainLookupEnd - entry.domainLookupStart),
+      tcp: round(entry.connectEnd - entry.connectStart),
+      ttfb: round(entry.responseStart),
+      domContentLoaded: round(entry.domContentLoadedEventEnd),
+      load: round(entry.loadEventEnd)
+    };
+  }
+
+  // 兼容不支持 Navigation Timing Level 2 的浏览器
+  const timing = performance.timing;
+  if (!timing || !timing.navigationStart) {
+    return null;
+  }
+
+  const start = timing.navigationStart;
+  return {
+    metricName: 'navigation',
+    value: round(timing.loadEventEnd - start),
+    dns: round(timing.domainLookupEnd - timing.domainLookupStart),
+    tcp: round(timing.connectEnd - timing.connectStart),
+    ttfb: round(timing.responseStart - start),
+    domContentLoaded: round(timing.domContentLoadedEventEnd - start),
+    load: round(timing.loadEventEnd - start)
+  };
+}
+
 /**
  * 获取用户代理信息
  */
@@ -96,11 +171,39 @@ export function safeStringify(obj: any): string {
   try {
     return JSON.stringify(obj);
   } catch (error) {
-    console.warn('Failed to stringify object:', error);
+    console.warn('[ArgosTracker] Failed to stringify object:', error);
     return '{}';
   }
 }
 
+/**
+ * 计算请求体的字节数，字符串按 UTF-8 编码计算
+ */
+export function getByteLength(data: string | ArrayBuffer): number {
+  if (typeof data !== 'string') {
+    return data.byteLength;
+  }
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(data).length;
+  }
+  return encodeURIComponent(data).replace(/%[0-9A-F]{2}/g, 'x').length;
+}
+
+/**
+ * 读取元素上 data-argos-prop-* 属性作为事件属性，属性名为前缀之后的部分
+ */
+export function getDataAttributeProperties(element: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+
+  Array.from(element.attributes).forEach(attribute => {
+    if (attribute.name.indexOf(DATA_ATTRIBUTES.PROP_PREFIX) === 0) {
+      properties[attribute.name.substring(DATA_ATTRIBUTES.PROP_PREFIX.length)] = attribute.value;
+    }
+  });
+
+  return properties;
+}
+
 /**
  * 安全的JSON解析
  */
@@ -108,7 +211,7 @@ export function safeParse<T = any>(str: string, defaultValue: T): T {
   try {
     return JSON.parse(str);
   } catch (error) {
-    console.warn('Failed to parse JSON:', error);
+    console.warn('[ArgosTracker] Failed to parse JSON:', error);
     return defaultValue;
   }
 }
@@ -160,35 +263,3 @@ export function throttle<T extends (...args: any[]) => any>(
     }
   };
 }
-
-/**
- * 获取元素的CSS选择器路径
- */
-export function getElementSelector(element: Element): string {
-  if (element.id) {
-    return `#${element.id}`;
-  }
-  
-  if (element.className) {
-    const classes = element.className.split(' ').filter(cls => cls.trim());
-    if (classes.length > 0) {
-      return `.${classes.join('.')}`;
-    }
-  }
-  
-  const tagName = element.tagName.toLowerCase();
-  const parent = element.parentElement;
-  
-  if (!parent) {
-    return tagName;
-  }
-  
-  const siblings = Array.from(parent.children).filter(child => child.tagName === element.tagName);
-  const index = siblings.indexOf(element);
-  
-  if (siblings.length > 1) {
-    return `${getElementSelector(parent)} > ${tagName}:nth-child(${index + 1})`;
-  }
-  
-  return `${getElementSelector(parent)} > ${tagName}`;
-}
\ No newline at end of file